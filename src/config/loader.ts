@@ -6,8 +6,23 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { config as dotenvConfig } from 'dotenv';
 import { parse } from 'yaml';
-import { AppConfig } from '../types';
+import {
+  AccessRuleConfig,
+  ApiClientConfig,
+  ApiConfig,
+  AppConfig,
+  ChannelConfig,
+  PermissionMode,
+  ProjectConfig,
+  PromptTemplateConfig,
+  RunOptionsConfig,
+  ScheduleConfig,
+  StatusIndicatorMode,
+  ToolPermissionConfig,
+} from '../types';
+import { META_COMMANDS } from '../services/command-parser';
 import { logger } from '../utils/logger';
+import { ConfigValidationError, validateConfig } from './validator';
 
 // .envファイルを読み込み
 dotenvConfig();
@@ -15,41 +30,343 @@ dotenvConfig();
 /**
  * 環境変数を展開
  * ${ENV_VAR} 形式の文字列を環境変数の値に置換
+ * 未設定または空の環境変数は空文字に置換し、設定箇所付きのエラーとして記録する
  * @param value 対象の値
+ * @param location エラーメッセージ用の設定箇所
+ * @param errors エラーの追加先
  * @returns 環境変数を展開した値
  */
-function expandEnvVars(value: unknown): unknown {
+function expandEnvVars(value: unknown, location: string, errors: string[]): unknown {
   if (typeof value === 'string') {
     return value.replace(/\$\{([^}]+)\}/g, (_, envVar) => {
       const envValue = process.env[envVar];
-      if (envValue === undefined) {
-        logger.warn(`環境変数 ${envVar} が設定されていません`);
+      if (!envValue) {
+        errors.push(`${location}: 環境変数 ${envVar} が${envValue === undefined ? '設定されていません' : '空です'}`);
         return '';
       }
       return envValue;
     });
   }
   if (Array.isArray(value)) {
-    return value.map(expandEnvVars);
+    return value.map((item, i) => expandEnvVars(item, `${location}[${i}]`, errors));
   }
   if (value !== null && typeof value === 'object') {
     const result: Record<string, unknown> = {};
     for (const [key, val] of Object.entries(value)) {
-      result[key] = expandEnvVars(val);
+      result[key] = expandEnvVars(val, location ? `${location}.${key}` : key, errors);
     }
     return result;
   }
   return value;
 }
 
+/** 有効なパーミッションモード */
+const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'bypassPermissions', 'plan'];
+
+/**
+ * 文字列配列か判定
+ * @param value 対象の値
+ * @returns 文字列配列の場合true
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * ツール権限設定を読み込み
+ * @param raw 設定値（オブジェクト）
+ * @param location エラーメッセージ用の設定箇所
+ * @returns ツール権限設定
+ * @throws 値の形式が不正な場合
+ */
+function parseToolPermissions(raw: Record<string, unknown>, location: string): ToolPermissionConfig {
+  const permissions: ToolPermissionConfig = {};
+
+  for (const key of ['allowedTools', 'disallowedTools', 'extraArgs'] as const) {
+    if (raw[key] === undefined) {
+      continue;
+    }
+    if (!isStringArray(raw[key])) {
+      throw new Error(`${location}.${key} は文字列の配列で指定してください`);
+    }
+    permissions[key] = raw[key] as string[];
+  }
+
+  if (raw.permissionMode !== undefined) {
+    if (!PERMISSION_MODES.includes(raw.permissionMode as PermissionMode)) {
+      throw new Error(
+        `${location}.permissionMode の値が不正です: ${raw.permissionMode}（${PERMISSION_MODES.join(' / ')}）`
+      );
+    }
+    permissions.permissionMode = raw.permissionMode as PermissionMode;
+  }
+
+  if (raw.approval !== undefined) {
+    if (typeof raw.approval !== 'boolean') {
+      throw new Error(`${location}.approval は true または false で指定してください`);
+    }
+    permissions.approval = raw.approval;
+  }
+
+  return permissions;
+}
+
+/**
+ * アクセス制御ルールを読み込み
+ * @param raw 設定値（オブジェクト）
+ * @param location エラーメッセージ用の設定箇所
+ * @returns アクセス制御ルール
+ * @throws 値の形式が不正な場合
+ */
+function parseAccessRule(raw: Record<string, unknown>, location: string): AccessRuleConfig {
+  const rule: AccessRuleConfig = {};
+
+  for (const key of ['allowedUsers', 'allowedUserGroups'] as const) {
+    if (raw[key] === undefined) {
+      continue;
+    }
+    if (!isStringArray(raw[key])) {
+      throw new Error(`${location}.${key} は文字列の配列で指定してください`);
+    }
+    rule[key] = raw[key] as string[];
+  }
+
+  return rule;
+}
+
+/**
+ * 実行オプションの設定を読み込み
+ * タイムアウトは単位を省略した数値（分）でも指定できる
+ * @param raw 設定値
+ * @param location エラーメッセージ用の設定箇所
+ * @returns 実行オプションの設定（未指定の場合はundefined）
+ * @throws 値の形式が不正な場合
+ */
+function parseRunOptionsConfig(raw: unknown, location: string): RunOptionsConfig | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${location} はオブジェクトで指定してください`);
+  }
+  const obj = raw as Record<string, unknown>;
+  if (obj.allowedModels !== undefined && !isStringArray(obj.allowedModels)) {
+    throw new Error(`${location}.allowedModels は文字列の配列で指定してください`);
+  }
+
+  const run = { ...obj } as RunOptionsConfig;
+  for (const key of ['timeout', 'maxTimeout'] as const) {
+    if (typeof obj[key] === 'number') {
+      run[key] = String(obj[key]);
+    }
+  }
+  return run;
+}
+
+/**
+ * projects セクションを正規化
+ * パスのみの文字列形式と、権限設定を含むオブジェクト形式の両方に対応
+ * @param raw projects セクション
+ * @returns プロジェクト名とプロジェクト設定のマッピング
+ * @throws 形式が不正な場合
+ */
+function normalizeProjects(raw: Record<string, unknown>): Record<string, ProjectConfig> {
+  const projects: Record<string, ProjectConfig> = {};
+
+  for (const [name, value] of Object.entries(raw)) {
+    // `!claude help` などのBot自身のコマンドと区別できなくなるため予約
+    if ((META_COMMANDS as readonly string[]).includes(name.toLowerCase())) {
+      throw new Error(`プロジェクト名 "${name}" はBotのコマンドとして予約されているため使用できません`);
+    }
+    if (typeof value === 'string') {
+      projects[name] = { name, path: value };
+      continue;
+    }
+    if (value !== null && typeof value === 'object' && typeof (value as { path?: unknown }).path === 'string') {
+      const obj = value as Record<string, unknown>;
+      if (obj.worktree !== undefined && typeof obj.worktree !== 'boolean') {
+        throw new Error(`projects.${name}.worktree は true または false で指定してください`);
+      }
+      for (const key of ['worktreeDir', 'systemPrompt'] as const) {
+        if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+          throw new Error(`projects.${name}.${key} は文字列で指定してください`);
+        }
+      }
+      projects[name] = {
+        ...parseToolPermissions(obj, `projects.${name}`),
+        ...parseAccessRule(obj, `projects.${name}`),
+        name,
+        path: obj.path as string,
+        worktree: obj.worktree as boolean | undefined,
+        worktreeDir: obj.worktreeDir as string | undefined,
+        run: parseRunOptionsConfig(obj.run, `projects.${name}.run`),
+        systemPrompt: obj.systemPrompt as string | undefined,
+      };
+      continue;
+    }
+    throw new Error(`projects.${name} にはパス、または path を含むオブジェクトを指定してください`);
+  }
+
+  return projects;
+}
+
+/**
+ * channels セクションを正規化
+ * デフォルトプロジェクト名のみの文字列形式と、権限設定を含むオブジェクト形式の両方に対応
+ * @param raw channels セクション
+ * @returns チャンネルIDとチャンネル設定のマッピング
+ * @throws 形式が不正な場合
+ */
+function normalizeChannels(raw: Record<string, unknown>): Record<string, ChannelConfig> {
+  const channels: Record<string, ChannelConfig> = {};
+
+  for (const [channelId, value] of Object.entries(raw)) {
+    if (value === null || value === undefined || value === '') {
+      channels[channelId] = { channelId };
+      continue;
+    }
+    if (typeof value === 'string') {
+      channels[channelId] = { channelId, defaultProject: value };
+      continue;
+    }
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      const obj = value as Record<string, unknown>;
+      for (const key of ['project', 'systemPrompt', 'statusIndicator'] as const) {
+        if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+          throw new Error(`channels.${channelId}.${key} は文字列で指定してください`);
+        }
+      }
+      channels[channelId] = {
+        ...parseToolPermissions(obj, `channels.${channelId}`),
+        ...parseAccessRule(obj, `channels.${channelId}`),
+        channelId,
+        defaultProject: obj.project as string | undefined,
+        systemPrompt: obj.systemPrompt as string | undefined,
+        statusIndicator: obj.statusIndicator as StatusIndicatorMode | undefined,
+      };
+      continue;
+    }
+    throw new Error(`channels.${channelId} の形式が不正です`);
+  }
+
+  return channels;
+}
+
+/**
+ * schedules セクションを正規化
+ * @param raw schedules セクション
+ * @returns 定期実行名と定期実行設定のマッピング
+ * @throws 形式が不正な場合
+ */
+function normalizeSchedules(raw: Record<string, unknown>): Record<string, ScheduleConfig> {
+  const schedules: Record<string, ScheduleConfig> = {};
+
+  for (const [name, value] of Object.entries(raw)) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`schedules.${name} には cron / project / channel / prompt を含むオブジェクトを指定してください`);
+    }
+    const obj = value as Record<string, unknown>;
+    for (const key of ['cron', 'project', 'channel', 'prompt'] as const) {
+      if (typeof obj[key] !== 'string' || !obj[key]) {
+        throw new Error(`schedules.${name}.${key} を文字列で指定してください`);
+      }
+    }
+    schedules[name] = {
+      name,
+      cron: obj.cron as string,
+      project: obj.project as string,
+      channel: obj.channel as string,
+      prompt: obj.prompt as string,
+    };
+  }
+
+  return schedules;
+}
+
+/**
+ * templates セクションを正規化
+ * プロンプトのみの文字列形式と、説明を含むオブジェクト形式の両方に対応
+ * @param raw templates セクション
+ * @returns テンプレート名とプロンプトテンプレートのマッピング
+ * @throws 形式が不正な場合
+ */
+function normalizeTemplates(raw: Record<string, unknown>): Record<string, PromptTemplateConfig> {
+  const templates: Record<string, PromptTemplateConfig> = {};
+
+  for (const [name, value] of Object.entries(raw)) {
+    if (typeof value === 'string') {
+      templates[name] = { name, prompt: value };
+      continue;
+    }
+    if (value === null || typeof value !== 'object' || typeof (value as { prompt?: unknown }).prompt !== 'string') {
+      throw new Error(`templates.${name} にはプロンプト、または prompt を含むオブジェクトを指定してください`);
+    }
+    const obj = value as Record<string, unknown>;
+    if (obj.description !== undefined && typeof obj.description !== 'string') {
+      throw new Error(`templates.${name}.description は文字列で指定してください`);
+    }
+    templates[name] = {
+      name,
+      prompt: obj.prompt as string,
+      description: obj.description as string | undefined,
+    };
+  }
+
+  return templates;
+}
+
+/**
+ * api セクションを正規化
+ * @param raw api セクション
+ * @returns HTTP API設定
+ * @throws 形式が不正な場合
+ */
+function normalizeApi(raw: Record<string, unknown>): ApiConfig {
+  const rawClients = raw.clients;
+  if (rawClients === null || typeof rawClients !== 'object' || Array.isArray(rawClients)) {
+    throw new Error('api.clients にはクライアント名とクライアント設定のマッピングを指定してください');
+  }
+
+  const clients: Record<string, ApiClientConfig> = {};
+  for (const [name, value] of Object.entries(rawClients as Record<string, unknown>)) {
+    if (value === null || typeof value !== 'object' || typeof (value as { token?: unknown }).token !== 'string') {
+      throw new Error(`api.clients.${name} には token を含むオブジェクトを指定してください`);
+    }
+    const obj = value as Record<string, unknown>;
+    for (const key of ['projects', 'channels'] as const) {
+      if (obj[key] !== undefined && !isStringArray(obj[key])) {
+        throw new Error(`api.clients.${name}.${key} は文字列の配列で指定してください`);
+      }
+    }
+    clients[name] = {
+      name,
+      token: obj.token as string,
+      projects: obj.projects as string[] | undefined,
+      channels: obj.channels as string[] | undefined,
+    };
+  }
+
+  return { ...raw, clients } as ApiConfig;
+}
+
+/**
+ * 設定ファイルのパスを解決
+ * @param configPath 設定ファイルパス（省略時は config.yaml）
+ * @returns 設定ファイルの絶対パス
+ */
+export function resolveConfigPath(configPath?: string): string {
+  return path.resolve(configPath || 'config.yaml');
+}
+
 /**
  * 設定ファイルを読み込み
  * @param configPath 設定ファイルパス（省略時は config.yaml）
  * @returns アプリケーション設定
- * @throws 設定ファイルが存在しない場合
+ * @throws 設定ファイルが存在しない・形式が不正な場合
+ * @throws {ConfigValidationError} 設定値に誤りがある場合（すべての誤りを含む）
  */
 export function loadConfig(configPath?: string): AppConfig {
-  const targetPath = configPath || path.join(process.cwd(), 'config.yaml');
+  const targetPath = resolveConfigPath(configPath);
 
   logger.info('設定ファイルを読み込み', { path: targetPath });
 
@@ -59,17 +376,33 @@ export function loadConfig(configPath?: string): AppConfig {
 
   const content = fs.readFileSync(targetPath, 'utf-8');
   const rawConfig = parse(content);
-  const config = expandEnvVars(rawConfig) as AppConfig;
-
-  // バリデーション
-  if (!config.slack?.botToken) {
-    throw new Error('slack.botToken が設定されていません');
+  if (rawConfig === null || typeof rawConfig !== 'object' || Array.isArray(rawConfig)) {
+    throw new Error(`設定ファイルの形式が不正です: ${targetPath}`);
   }
-  if (!config.projects || Object.keys(config.projects).length === 0) {
+  const envErrors: string[] = [];
+  const expanded = expandEnvVars(rawConfig, '', envErrors) as Record<string, unknown>;
+
+  const rawProjects = expanded.projects as Record<string, unknown> | undefined;
+  if (!rawProjects || Object.keys(rawProjects).length === 0) {
     throw new Error('projects が設定されていません');
   }
 
+  const config = {
+    ...expanded,
+    projects: normalizeProjects(rawProjects),
+    channels: expanded.channels ? normalizeChannels(expanded.channels as Record<string, unknown>) : undefined,
+    schedules: expanded.schedules ? normalizeSchedules(expanded.schedules as Record<string, unknown>) : undefined,
+    api: expanded.api ? normalizeApi(expanded.api as Record<string, unknown>) : undefined,
+    templates: expanded.templates ? normalizeTemplates(expanded.templates as Record<string, unknown>) : undefined,
+  } as AppConfig;
+
+  const errors = [...envErrors, ...validateConfig(config)];
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+
   logger.info('設定ファイル読み込み完了', {
+    mode: config.slack.mode ?? 'polling',
     pollingInterval: config.slack.pollingInterval,
     projectCount: Object.keys(config.projects).length,
   });
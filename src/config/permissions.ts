@@ -0,0 +1,49 @@
+/**
+ * ツール権限の解決
+ * プロジェクト設定とチャンネル設定を合成し、実行時に使うツール権限を決定する
+ */
+
+import { AppConfig, ToolPermissionConfig } from '../types';
+
+/**
+ * プロジェクト・チャンネルのツール権限を解決
+ * - allowedTools / permissionMode / approval: チャンネル設定があれば優先、なければプロジェクト設定
+ * - disallowedTools: 両方の設定を合算
+ * - extraArgs: プロジェクト → チャンネルの順に連結
+ * @param config アプリケーション設定
+ * @param projectName プロジェクト名
+ * @param channelId チャンネルID
+ * @returns ツール権限設定
+ */
+export function resolveToolPermissions(
+  config: AppConfig,
+  projectName: string,
+  channelId: string
+): ToolPermissionConfig {
+  const project = config.projects[projectName];
+  const channel = config.channels?.[channelId];
+
+  const disallowedTools = Array.from(
+    new Set([...(project?.disallowedTools ?? []), ...(channel?.disallowedTools ?? [])])
+  );
+  const extraArgs = [...(project?.extraArgs ?? []), ...(channel?.extraArgs ?? [])];
+
+  return {
+    allowedTools: channel?.allowedTools ?? project?.allowedTools,
+    disallowedTools: disallowedTools.length > 0 ? disallowedTools : undefined,
+    permissionMode: channel?.permissionMode ?? project?.permissionMode,
+    extraArgs: extraArgs.length > 0 ? extraArgs : undefined,
+    approval: channel?.approval ?? project?.approval,
+  };
+}
+
+/**
+ * いずれかのプロジェクト・チャンネルでツール実行の承認が有効か判定
+ * @param config アプリケーション設定
+ * @returns 承認が有効な設定がある場合true
+ */
+export function isApprovalEnabled(config: AppConfig): boolean {
+  return [...Object.values(config.projects), ...Object.values(config.channels ?? {})].some(
+    (entry) => entry.approval === true
+  );
+}
@@ -0,0 +1,339 @@
+/**
+ * 設定のバリデーション
+ * 問題のある設定箇所をすべて洗い出し、設定箇所のパス付きのエラーメッセージを返す
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findUnknownPlaceholders, TEMPLATE_NAME_PATTERN, TEMPLATE_PLACEHOLDERS } from '../services/prompt-templates';
+import { isValidModelName } from '../services/run-options';
+import { AppConfig, RunOptionsConfig } from '../types';
+import { parseCron } from '../utils/cron';
+import { parseDuration } from '../utils/duration';
+
+/** 有効なメッセージ受信方式 */
+const INGESTION_MODES = ['polling', 'socket', 'events'];
+
+/** 有効なジョブの直列化単位 */
+const QUEUE_SCOPES = ['project', 'thread'];
+
+/** 有効なジョブの状態の表示方法 */
+const STATUS_INDICATOR_MODES = ['message', 'reactions', 'both'];
+
+/** 有効なセッションストアのバックエンド種別 */
+const STORAGE_TYPES = ['json', 'sqlite'];
+
+/** HTTP APIの認証トークンの最小文字数 */
+const MIN_API_TOKEN_LENGTH = 16;
+
+/** 有効な添付ファイルの種別 */
+const ATTACHMENT_KINDS = ['image', 'text', 'pdf', 'other'];
+
+/** 有効な利用上限の集計期間 */
+const BUDGET_PERIODS = ['daily', 'monthly'];
+
+/** 有効な利用上限の種別 */
+const BUDGET_LIMIT_KINDS = ['total', 'perUser', 'perProject', 'perChannel'];
+
+/**
+ * 設定のバリデーションエラー
+ */
+export class ConfigValidationError extends Error {
+  /** 設定箇所ごとのエラーメッセージ */
+  errors: string[];
+
+  /**
+   * コンストラクタ
+   * @param errors 設定箇所ごとのエラーメッセージ
+   */
+  constructor(errors: string[]) {
+    super(`設定にエラーがあります（${errors.length}件）\n${errors.map((error) => `- ${error}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * 整数の範囲を検証
+ * @param errors エラーの追加先
+ * @param location 設定箇所
+ * @param value 設定値（未指定の場合は検証しない）
+ * @param min 最小値
+ * @param max 最大値
+ */
+function checkInteger(errors: string[], location: string, value: unknown, min: number, max: number): void {
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${location} は ${min} 以上 ${max} 以下の整数で指定してください（現在: ${String(value)}）`);
+  }
+}
+
+/**
+ * 真偽値を検証
+ * @param errors エラーの追加先
+ * @param location 設定箇所
+ * @param value 設定値（未指定の場合は検証しない）
+ */
+function checkBoolean(errors: string[], location: string, value: unknown): void {
+  if (value !== undefined && typeof value !== 'boolean') {
+    errors.push(`${location} は true または false で指定してください`);
+  }
+}
+
+/**
+ * 文字列を検証
+ * @param errors エラーの追加先
+ * @param location 設定箇所
+ * @param value 設定値（未指定の場合は検証しない）
+ */
+function checkString(errors: string[], location: string, value: unknown): void {
+  if (value !== undefined && typeof value !== 'string') {
+    errors.push(`${location} は文字列で指定してください`);
+  }
+}
+
+/**
+ * 列挙値を検証
+ * @param errors エラーの追加先
+ * @param location 設定箇所
+ * @param value 設定値（未指定の場合は検証しない）
+ * @param allowed 有効な値
+ */
+function checkEnum(errors: string[], location: string, value: unknown, allowed: string[]): void {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    errors.push(`${location} の値が不正です: ${String(value)}（${allowed.join(' / ')}）`);
+  }
+}
+
+/**
+ * ディレクトリが存在するか検証
+ * @param errors エラーの追加先
+ * @param location 設定箇所
+ * @param dirPath ディレクトリパス
+ */
+function checkDirectory(errors: string[], location: string, dirPath: string): void {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(path.resolve(dirPath));
+  } catch {
+    errors.push(`${location} のディレクトリが存在しません: ${dirPath}`);
+    return;
+  }
+  if (!stat.isDirectory()) {
+    errors.push(`${location} はディレクトリではありません: ${dirPath}`);
+  }
+}
+
+/**
+ * 時間の長さを検証
+ * @param errors エラーの追加先
+ * @param location 設定箇所
+ * @param value 設定値（未指定の場合は検証しない）
+ * @returns 時間の長さ（ミリ秒）。未指定・不正な場合はundefined
+ */
+function checkDuration(errors: string[], location: string, value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return parseDuration(String(value));
+  } catch (err) {
+    errors.push(`${location} の値が不正です: ${(err as Error).message}`);
+    return undefined;
+  }
+}
+
+/**
+ * 実行オプションのデフォルトと上限を検証
+ * @param errors エラーの追加先
+ * @param location 設定箇所
+ * @param run 実行オプションの設定
+ */
+function checkRunOptions(errors: string[], location: string, run: RunOptionsConfig): void {
+  for (const model of [run.model, ...(run.allowedModels ?? [])]) {
+    if (model !== undefined && !(typeof model === 'string' && isValidModelName(model))) {
+      errors.push(`${location} のモデル名が不正です: ${String(model)}`);
+    }
+  }
+  if (run.model !== undefined && run.allowedModels && !run.allowedModels.includes(run.model)) {
+    errors.push(`${location}.model "${run.model}" が allowedModels に含まれていません`);
+  }
+
+  checkInteger(errors, `${location}.maxTurns`, run.maxTurns, 1, 10000);
+  checkInteger(errors, `${location}.maxTurnsLimit`, run.maxTurnsLimit, 1, 10000);
+  if (run.maxTurns !== undefined && run.maxTurnsLimit !== undefined && run.maxTurns > run.maxTurnsLimit) {
+    errors.push(`${location}.maxTurns は maxTurnsLimit 以下で指定してください`);
+  }
+
+  const timeout = checkDuration(errors, `${location}.timeout`, run.timeout);
+  const maxTimeout = checkDuration(errors, `${location}.maxTimeout`, run.maxTimeout);
+  if (timeout !== undefined && maxTimeout !== undefined && timeout > maxTimeout) {
+    errors.push(`${location}.timeout は maxTimeout 以下で指定してください`);
+  }
+}
+
+/**
+ * 正規化済みの設定を検証
+ * @param config アプリケーション設定
+ * @returns エラーメッセージ一覧（問題がない場合は空）
+ */
+export function validateConfig(config: AppConfig): string[] {
+  const errors: string[] = [];
+
+  const slack = config.slack;
+  if (!slack || typeof slack !== 'object') {
+    errors.push('slack が設定されていません');
+  } else {
+    if (!slack.botToken) {
+      errors.push('slack.botToken が設定されていません');
+    }
+    checkEnum(errors, 'slack.mode', slack.mode, INGESTION_MODES);
+    checkString(errors, 'slack.apiUrl', slack.apiUrl);
+    if (slack.mode === 'socket' && !slack.appToken && !slack.socketModeUrl) {
+      errors.push('Socket Modeを使用するには slack.appToken が必要です');
+    }
+    if (slack.mode === 'events' && !slack.signingSecret) {
+      errors.push('Events APIを使用するには slack.signingSecret が必要です');
+    }
+    checkInteger(errors, 'slack.pollingInterval', slack.pollingInterval, 1000, 60 * 60 * 1000);
+    checkInteger(errors, 'slack.progressUpdateInterval', slack.progressUpdateInterval, 1000, 10 * 60 * 1000);
+    // Slackの1メッセージあたりの上限は40000文字
+    checkInteger(errors, 'slack.maxMessageLength', slack.maxMessageLength, 500, 40000);
+    checkInteger(errors, 'slack.fileUploadThreshold', slack.fileUploadThreshold, 500, Number.MAX_SAFE_INTEGER);
+    checkInteger(errors, 'slack.eventsPort', slack.eventsPort, 1, 65535);
+    if (slack.eventsPath !== undefined && (typeof slack.eventsPath !== 'string' || !slack.eventsPath.startsWith('/'))) {
+      errors.push(`slack.eventsPath は / で始まるパスで指定してください（現在: ${String(slack.eventsPath)}）`);
+    }
+    checkBoolean(errors, 'slack.fallbackToPolling', slack.fallbackToPolling);
+    checkBoolean(errors, 'slack.blockKit', slack.blockKit);
+  }
+
+  for (const project of Object.values(config.projects)) {
+    if (!project.path) {
+      errors.push(`projects.${project.name}.path が設定されていません`);
+      continue;
+    }
+    checkDirectory(errors, `projects.${project.name}.path`, project.path);
+    if (project.run) {
+      checkRunOptions(errors, `projects.${project.name}.run`, project.run);
+    }
+  }
+
+  for (const channel of Object.values(config.channels ?? {})) {
+    if (channel.defaultProject !== undefined && !(channel.defaultProject in config.projects)) {
+      errors.push(`channels.${channel.channelId}.project のプロジェクト "${channel.defaultProject}" が存在しません`);
+    }
+    checkEnum(errors, `channels.${channel.channelId}.statusIndicator`, channel.statusIndicator, STATUS_INDICATOR_MODES);
+  }
+
+  for (const schedule of Object.values(config.schedules ?? {})) {
+    const location = `schedules.${schedule.name}`;
+    try {
+      parseCron(schedule.cron);
+    } catch (err) {
+      errors.push(`${location}.cron の形式が不正です: ${(err as Error).message}`);
+    }
+    if (!(schedule.project in config.projects)) {
+      errors.push(`${location}.project のプロジェクト "${schedule.project}" が存在しません`);
+    }
+    // スレッドへの返信を受信するため、監視対象のチャンネルである必要がある
+    if (!(schedule.channel in (config.channels ?? {}))) {
+      errors.push(`${location}.channel のチャンネル "${schedule.channel}" が channels に設定されていません`);
+    }
+  }
+
+  if (config.api) {
+    checkInteger(errors, 'api.port', config.api.port, 1, 65535);
+    checkString(errors, 'api.host', config.api.host);
+    const tokens = new Set<string>();
+    for (const client of Object.values(config.api.clients)) {
+      const location = `api.clients.${client.name}`;
+      if (client.token.length < MIN_API_TOKEN_LENGTH) {
+        errors.push(`${location}.token は推測されないよう ${MIN_API_TOKEN_LENGTH} 文字以上で指定してください`);
+      } else if (tokens.has(client.token)) {
+        errors.push(`${location}.token が他のクライアントと重複しています`);
+      }
+      tokens.add(client.token);
+      for (const project of client.projects ?? []) {
+        if (!(project in config.projects)) {
+          errors.push(`${location}.projects のプロジェクト "${project}" が存在しません`);
+        }
+      }
+      for (const channel of client.channels ?? []) {
+        if (!(channel in (config.channels ?? {}))) {
+          errors.push(`${location}.channels のチャンネル "${channel}" が channels に設定されていません`);
+        }
+      }
+    }
+  }
+
+  for (const template of Object.values(config.templates ?? {})) {
+    const location = `templates.${template.name}`;
+    if (!TEMPLATE_NAME_PATTERN.test(template.name)) {
+      errors.push(`${location} のテンプレート名には英数字・-・_ を使用してください`);
+    }
+    if (!template.prompt.trim()) {
+      errors.push(`${location}.prompt が空です`);
+    }
+    for (const name of findUnknownPlaceholders(template.prompt)) {
+      errors.push(
+        `${location}.prompt の {{${name}}} は不明なプレースホルダーです（${TEMPLATE_PLACEHOLDERS.join(' / ')} / 1, 2, ...）`
+      );
+    }
+  }
+
+  const idleTimeoutHours = config.sessions?.idleTimeoutHours;
+  if (idleTimeoutHours !== undefined && !(typeof idleTimeoutHours === 'number' && idleTimeoutHours >= 0)) {
+    errors.push(`sessions.idleTimeoutHours は0以上の数で指定してください（現在: ${String(idleTimeoutHours)}）`);
+  }
+
+  for (const [kind, size] of Object.entries(config.attachments?.maxSizeMB ?? {})) {
+    if (!ATTACHMENT_KINDS.includes(kind)) {
+      errors.push(`attachments.maxSizeMB.${kind} は不明な種別です（${ATTACHMENT_KINDS.join(' / ')}）`);
+    } else if (!(typeof size === 'number' && size >= 0)) {
+      errors.push(`attachments.maxSizeMB.${kind} は0以上の数で指定してください（現在: ${String(size)}）`);
+    }
+  }
+
+  const claude = config.claude;
+  if (claude !== undefined) {
+    checkString(errors, 'claude.systemPrompt', claude.systemPrompt);
+    checkInteger(errors, 'claude.maxConcurrentJobs', claude.maxConcurrentJobs, 1, 64);
+    checkEnum(errors, 'claude.queueScope', claude.queueScope, QUEUE_SCOPES);
+    checkBoolean(errors, 'claude.postDiff', claude.postDiff);
+    checkInteger(errors, 'claude.approvalTimeout', claude.approvalTimeout, 1000, 24 * 60 * 60 * 1000);
+    checkInteger(errors, 'claude.approvalPort', claude.approvalPort, 0, 65535);
+  }
+
+  const storage = config.storage;
+  if (storage !== undefined) {
+    checkEnum(errors, 'storage.type', storage.type, STORAGE_TYPES);
+    checkString(errors, 'storage.path', storage.path);
+    if (storage.retentionDays !== undefined && !(typeof storage.retentionDays === 'number' && storage.retentionDays > 0)) {
+      errors.push(`storage.retentionDays は正の数で指定してください（現在: ${String(storage.retentionDays)}）`);
+    }
+  }
+
+  for (const [period, limits] of Object.entries(config.budgets ?? {})) {
+    if (!BUDGET_PERIODS.includes(period)) {
+      errors.push(`budgets.${period} は不明な期間です（${BUDGET_PERIODS.join(' / ')}）`);
+      continue;
+    }
+    for (const [kind, limit] of Object.entries(limits ?? {})) {
+      if (!BUDGET_LIMIT_KINDS.includes(kind)) {
+        errors.push(`budgets.${period}.${kind} は不明な上限です（${BUDGET_LIMIT_KINDS.join(' / ')}）`);
+      } else if (!(typeof limit === 'number' && limit > 0)) {
+        errors.push(`budgets.${period}.${kind} は正の数（USD）で指定してください（現在: ${String(limit)}）`);
+      }
+    }
+  }
+
+  const admins = config.access?.admins;
+  if (admins !== undefined && !(Array.isArray(admins) && admins.every((admin) => typeof admin === 'string'))) {
+    errors.push('access.admins は文字列の配列で指定してください');
+  }
+
+  return errors;
+}
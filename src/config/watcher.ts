@@ -0,0 +1,110 @@
+/**
+ * 設定ファイルの監視
+ * 設定ファイルの変更を検知して再読み込みし、読み込みに成功した場合のみ新しい設定を通知する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppConfig } from '../types';
+import { logger } from '../utils/logger';
+import { loadConfig } from './loader';
+
+/** 変更検知から再読み込みまでの待ち時間（ミリ秒）。保存時の連続した変更通知をまとめる */
+const RELOAD_DEBOUNCE_MS = 500;
+
+/**
+ * 再読み込みした設定を受け取るハンドラ
+ */
+export type ConfigReloadHandler = (config: AppConfig) => void | Promise<void>;
+
+/**
+ * 設定ファイルの監視
+ */
+export class ConfigWatcher {
+  private configPath: string;
+  private onReload: ConfigReloadHandler;
+  private watcher?: fs.FSWatcher;
+  private debounceTimer?: NodeJS.Timeout;
+  /** 最後に読み込んだ内容（内容が変わらない変更通知を無視するため） */
+  private lastContent?: string;
+
+  /**
+   * コンストラクタ
+   * @param configPath 設定ファイルの絶対パス
+   * @param onReload 再読み込みした設定を受け取るハンドラ
+   */
+  constructor(configPath: string, onReload: ConfigReloadHandler) {
+    this.configPath = configPath;
+    this.onReload = onReload;
+  }
+
+  /**
+   * 監視を開始
+   * エディタによっては別ファイルに書き込んでから置き換えるため、ディレクトリを監視してファイル名で絞り込む
+   */
+  start(): void {
+    this.lastContent = this.readContent();
+    const fileName = path.basename(this.configPath);
+    this.watcher = fs.watch(path.dirname(this.configPath), (_, changed) => {
+      if (changed === fileName) {
+        this.scheduleReload();
+      }
+    });
+    this.watcher.on('error', (err) => logger.error('設定ファイルの監視エラー', err));
+    logger.info('設定ファイルの監視開始', { path: this.configPath });
+  }
+
+  /**
+   * 監視を停止
+   */
+  stop(): void {
+    clearTimeout(this.debounceTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * 再読み込みを予約
+   */
+  private scheduleReload(): void {
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.reload().catch((err) => logger.error('設定の反映エラー', err as Error));
+    }, RELOAD_DEBOUNCE_MS);
+  }
+
+  /**
+   * 設定ファイルを再読み込み
+   * 読み込みに失敗した場合は現在の設定を維持する
+   */
+  private async reload(): Promise<void> {
+    const content = this.readContent();
+    if (content === undefined || content === this.lastContent) {
+      return;
+    }
+
+    let config: AppConfig;
+    try {
+      config = loadConfig(this.configPath);
+    } catch (err) {
+      logger.error('設定ファイルの再読み込みに失敗したため、現在の設定を維持します', err as Error);
+      return;
+    }
+
+    this.lastContent = content;
+    logger.info('設定ファイルを再読み込みしました', { path: this.configPath });
+    await this.onReload(config);
+  }
+
+  /**
+   * 設定ファイルの内容を読み込む
+   * @returns 内容。読み込めない場合（置き換え中など）はundefined
+   */
+  private readContent(): string | undefined {
+    try {
+      return fs.readFileSync(this.configPath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -2,17 +2,121 @@
  * Slack Claude Bot メインエントリーポイント
  */
 
-import { loadConfig } from './config/loader';
+import { loadConfig, resolveConfigPath } from './config/loader';
+import { ConfigWatcher } from './config/watcher';
+import { isApprovalEnabled, resolveToolPermissions } from './config/permissions';
 import { SlackClient } from './services/slack-client';
-import { executeClaudeCodeWithSession, FileOperation } from './services/claude-executor';
-import { parseCommand } from './services/command-parser';
-import { AppConfig, SlackMessage, ThreadSession } from './types';
+import { ClaudeExecuteResult, executeClaudeCodeWithSession, FileOperation } from './services/claude-executor';
+import { parseCommand, parseMetaCommand, parseRunOptions } from './services/command-parser';
+import {
+  createSessionStore,
+  getRetentionMs,
+  getSessionActivityTime,
+  SessionStore,
+} from './services/session-store';
+import { SlackEvent, SlackEventReceiver, toSlackMessage } from './services/slack-events';
+import { SocketModeReceiver } from './services/socket-mode-receiver';
+import { EventsApiReceiver } from './services/events-api-receiver';
+import { JobQueue, JobStatus } from './services/job-queue';
+import { ProgressReporter } from './services/progress-reporter';
+import {
+  AttachmentDownloadResult,
+  cleanupStaleAttachmentDirs,
+  downloadAttachments,
+  formatAttachmentPrompt,
+  formatSkippedAttachments,
+  removeAttachmentDir,
+} from './services/attachments';
+import { AccessController } from './services/access-control';
+import { createWorktree, getThreadWorktree, hasUncommittedChanges, removeWorktree } from './services/worktree-manager';
+import { diffSinceSnapshot, takeSnapshot, WorkingTreeDiff } from './services/git-diff';
+import { ApprovalRegistration, ApprovalServer } from './services/approval-server';
+import { ApprovalManager } from './services/approval-manager';
+import { formatHelp, formatJobStatus, formatProjects, formatSessions, formatUsage } from './services/meta-commands';
+import { checkBudget, formatUsageFooter, getPeriodStart } from './services/usage-tracker';
+import { Scheduler } from './services/scheduler';
+import { getIdleTimeoutMs, getThreadLastActivity, ThreadPollScheduler } from './services/session-lifecycle';
+import { RunOutcome, RunRequest, StartedRun, TriggerApiError, TriggerApiServer } from './services/trigger-api-server';
+import { formatRunOptions, ResolvedRunOptions, resolveRunOptions, RunOptionError } from './services/run-options';
+import {
+  checkTemplateArgs,
+  expandTemplate,
+  parseTemplateInvocation,
+  resolveSystemPrompt,
+  TemplateContext,
+} from './services/prompt-templates';
+import { getResultStatus, StatusReactions } from './services/status-reactions';
+import {
+  ApiClientConfig,
+  ApiConfig,
+  AppConfig,
+  MetaCommand,
+  ParsedCommand,
+  ProjectConfig,
+  RunOptions,
+  ScheduleConfig,
+  SlackMessage,
+  StatusIndicatorMode,
+  ThreadSession,
+} from './types';
+import { getCurrentBranch } from './utils/git';
 import { logger } from './utils/logger';
 
+/** Claude Code CLIのデフォルト最大同時実行数 */
+const DEFAULT_MAX_CONCURRENT_JOBS = 2;
+
+/**
+ * 実行中ジョブのキャンセルに使うリアクション
+ * ✋（hand / raised_hand）と ❌（x）
+ */
+const CANCEL_REACTIONS = new Set(['hand', 'raised_hand', 'x']);
+
+/**
+ * スレッドセッションの終了に使うリアクション（スレッドの親メッセージに付ける）
+ * 🔒（lock）と 🔚（end）
+ */
+const CLOSE_REACTIONS = new Set(['lock', 'end']);
+
+/** デフォルトのポーリング間隔（ミリ秒） */
+const DEFAULT_POLLING_INTERVAL_MS = 10000;
+
 /**
- * 処理済みメッセージを追跡するSet
+ * 再起動するまで反映されない設定
+ * 起動時の接続・待ち受け・保存先の決定にのみ使用するもの
  */
-const processedMessages = new Set<string>();
+const RESTART_REQUIRED_SETTINGS = [
+  'slack.botToken',
+  'slack.mode',
+  'slack.fallbackToPolling',
+  'slack.appToken',
+  'slack.socketModeUrl',
+  'slack.apiUrl',
+  'slack.signingSecret',
+  'slack.eventsPort',
+  'slack.eventsPath',
+  'storage.type',
+  'storage.path',
+  'claude.approvalPort',
+  'api.port',
+  'api.host',
+];
+
+/**
+ * 設定値を取得
+ * @param config アプリケーション設定
+ * @param key "セクション.キー" 形式の設定箇所
+ * @returns 設定値
+ */
+function getSetting(config: AppConfig, key: string): unknown {
+  const [section, name] = key.split('.');
+  return (config[section as keyof AppConfig] as Record<string, unknown> | undefined)?.[name];
+}
+
+/** 古いセッションデータの削除間隔（ミリ秒） */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** 期限切れのセッションを確認する間隔（ミリ秒） */
+const SESSION_EXPIRY_CHECK_INTERVAL_MS = 5 * 60 * 1000;
 
 /**
  * ファイル操作タイプの日本語表記
@@ -28,11 +132,11 @@ const FILE_OPERATION_LABELS: Record<string, string> = {
  * ファイル操作一覧をフォーマット
  * @param files ファイル操作一覧
  * @param projectPath プロジェクトパス（相対パス表示用）
- * @returns フォーマット済み文字列
+ * @returns コンテキストブロックに表示する行（操作がない場合は空）
  */
-function formatFileOperations(files: FileOperation[], projectPath: string): string {
+function formatFileOperations(files: FileOperation[], projectPath: string): string[] {
   if (files.length === 0) {
-    return '';
+    return [];
   }
 
   const lines = files.map((file) => {
@@ -44,39 +148,150 @@ function formatFileOperations(files: FileOperation[], projectPath: string): stri
     return `• [${label}] ${relativePath}`;
   });
 
-  return `\n\n*変更されたファイル:*\n${lines.join('\n')}`;
+  return ['*変更されたファイル:*', ...lines];
+}
+
+/**
+ * gitの変更種別の日本語表記
+ */
+const DIFF_STATUS_LABELS: Record<string, string> = {
+  A: '作成',
+  M: '編集',
+  D: '削除',
+  R: '名前変更',
+  C: 'コピー',
+  T: '種別変更',
+};
+
+/** 差分統計に表示する最大ファイル数 */
+const MAX_DIFF_STAT_FILES = 30;
+
+/**
+ * gitの差分統計をフォーマット（git diff --stat 相当）
+ * @param diff 作業ツリーの差分
+ * @returns コンテキストブロックに表示する行（変更がない場合は空）
+ */
+function formatDiffSummary(diff: WorkingTreeDiff): string[] {
+  if (diff.files.length === 0) {
+    return [];
+  }
+
+  const lines = diff.files.slice(0, MAX_DIFF_STAT_FILES).map((file) => {
+    const label = DIFF_STATUS_LABELS[file.status] || file.status;
+    const stat = file.binary ? 'バイナリ' : `+${file.insertions} -${file.deletions}`;
+    return `• [${label}] \`${file.path}\` ${stat}`;
+  });
+  if (diff.files.length > MAX_DIFF_STAT_FILES) {
+    lines.push(`…他${diff.files.length - MAX_DIFF_STAT_FILES}件`);
+  }
+
+  return [`*変更されたファイル（${diff.files.length}件, +${diff.insertions} -${diff.deletions}）:*`, ...lines];
+}
+
+/**
+ * Claude Code CLIを実行するディレクトリを取得
+ * @param session スレッドセッション
+ * @returns worktree使用時はworktreeのパス、それ以外はプロジェクトパス
+ */
+function getWorkingDirectory(session: ThreadSession): string {
+  return session.worktreePath ?? session.projectPath;
 }
 
 /**
- * スレッドごとのセッション情報を管理するMap
- * key: "channelId:threadTs"
+ * セッション終了時のworktreeの削除結果
+ * - removed: 削除した
+ * - dirty: 未コミットの変更があるため残した
+ * - failed: 削除に失敗した
  */
-const threadSessions = new Map<string, ThreadSession>();
+type WorktreeRemoval = 'removed' | 'dirty' | 'failed';
 
 /**
- * スレッドごとの最終確認タイムスタンプ
- * key: "channelId:threadTs"
+ * キュー投入済みのジョブ（キャンセル対象の追跡用）
  */
-const threadLastChecked = new Map<string, string>();
+interface ActiveJob {
+  /** セッションキー */
+  sessionKey: string;
+  /** チャンネルID */
+  channelId: string;
+  /** スレッドの親タイムスタンプ */
+  threadTs: string;
+  /** 依頼メッセージのタイムスタンプ */
+  messageTs: string;
+  /** 依頼したユーザーID */
+  userId?: string;
+  /** プロジェクト名 */
+  projectName: string;
+  /** 依頼時に指定された実行オプション（キュー投入時点のもの） */
+  runOptions?: RunOptions;
+  /** キャンセル用コントローラー */
+  controller: AbortController;
+  /** 実行を開始したか */
+  started: boolean;
+  /** 「処理中...」メッセージのタイムスタンプ */
+  placeholderTs?: string;
+  /** 依頼メッセージのリアクションによる状態表示（チャンネルの設定で有効な場合のみ） */
+  statusReactions?: StatusReactions;
+  /** Claude Code CLIの実行結果（実行後） */
+  result?: ClaudeExecuteResult;
+}
 
 /**
  * メインアプリケーションクラス
  */
-class SlackClaudeBot {
+export class SlackClaudeBot {
   private config: AppConfig;
   private slackClient: SlackClient;
-  private lastTimestamp: string;
+  /**
+   * スレッドセッション・最終確認タイムスタンプ・処理済みメッセージの保存先
+   * セッションキー: "channelId:threadTs"
+   */
+  private store: SessionStore;
+  /** 監視位置が記録されていないチャンネルの取得開始時刻（起動時刻） */
+  private startTimestamp: string;
   private botUserId?: string;
+  /** イベント受信機（Socket Mode / Events API 使用時） */
+  private receiver?: SlackEventReceiver;
+  private pollingTimer?: NodeJS.Timeout;
+  /** 定期的な保守処理（古いデータの削除・期限切れセッションの終了）のタイマー */
+  private maintenanceTimers: NodeJS.Timeout[] = [];
+  /** 実行中のポーリング（前回のポーリングが終わる前に次を開始しない） */
+  private polling?: Promise<void>;
+  private jobQueue: JobQueue;
+  private accessController: AccessController;
+  private approvalManager: ApprovalManager;
+  /** ツール実行の承認用MCPサーバー（承認が有効な設定がある場合のみ起動） */
+  private approvalServer?: ApprovalServer;
+  /** キュー投入済み（待機中・実行中）のジョブ */
+  private activeJobs = new Set<ActiveJob>();
+  private threadPollScheduler = new ThreadPollScheduler();
+  /** 定期実行のスケジューラー */
+  private scheduler: Scheduler;
+  /** 外部システムからの実行用HTTP API（api 設定がある場合のみ起動） */
+  private triggerApi?: TriggerApiServer;
+  /** 設定ファイルのパス（変更を監視して再読み込みする） */
+  private configPath?: string;
+  private configWatcher?: ConfigWatcher;
 
   /**
    * コンストラクタ
    * @param config アプリケーション設定
+   * @param configPath 設定ファイルのパス（指定時は変更を監視して再読み込み）
    */
-  constructor(config: AppConfig) {
+  constructor(config: AppConfig, configPath?: string) {
     this.config = config;
+    this.configPath = configPath;
     this.slackClient = new SlackClient(config.slack);
-    // 起動時点のタイムスタンプから監視開始
-    this.lastTimestamp = (Date.now() / 1000).toString();
+    this.store = createSessionStore(config.storage);
+    this.jobQueue = new JobQueue(config.claude?.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS);
+    this.accessController = new AccessController(config, this.slackClient);
+    this.approvalManager = new ApprovalManager(config, this.slackClient, this.accessController);
+    this.scheduler = new Scheduler(Object.values(config.schedules ?? {}), (schedule) => {
+      this.runSchedule(schedule).catch((err) =>
+        logger.error('定期実行エラー', err as Error, { name: schedule.name })
+      );
+    });
+    // 初めて監視するチャンネルは起動時点のタイムスタンプから監視開始
+    this.startTimestamp = (Date.now() / 1000).toString();
   }
 
   /**
@@ -93,33 +308,305 @@ class SlackClaudeBot {
     this.botUserId = testResult.userId;
     logger.info('Slack接続成功', { botName: testResult.botName, botUserId: this.botUserId });
 
-    // ポーリング開始
-    this.startPolling();
+    // 保存済みのセッションを復元
+    // 停止中に投稿されたメッセージも処理するため、チャンネルごとに前回の続きから監視する
+    await this.store.load();
+    await this.pruneStore();
+    this.maintenanceTimers.push(setInterval(() => this.pruneStore(), PRUNE_INTERVAL_MS));
+    logger.info('セッション復元完了', {
+      sessionCount: this.store.getThreadSessions().length,
+      channelCursors: Object.fromEntries(
+        Object.keys(this.config.channels || {}).map((channelId) => [channelId, this.store.getChannelCursor(channelId)])
+      ),
+    });
+
+    // やり取りのないセッションを終了
+    await this.expireIdleSessions();
+    this.maintenanceTimers.push(setInterval(() => this.expireIdleSessions(), SESSION_EXPIRY_CHECK_INTERVAL_MS));
+
+    // 前回までの実行で残った添付ファイルを削除
+    const staleDirCount = cleanupStaleAttachmentDirs();
+    if (staleDirCount > 0) {
+      logger.info('残っていた添付ファイルを削除', { dirCount: staleDirCount });
+    }
+
+    // ツール実行の承認用MCPサーバーを起動
+    if (isApprovalEnabled(this.config)) {
+      this.approvalServer = new ApprovalServer(this.config.claude?.approvalPort);
+      await this.approvalServer.start();
+    }
+
+    // メッセージ受信開始
+    await this.startIngestion();
+
+    // 定期実行を開始
+    this.scheduler.start();
+
+    // 外部システムからの実行用HTTP APIを起動
+    if (this.config.api) {
+      await this.startTriggerApi(this.config.api);
+    }
+
+    // 設定ファイルの変更を監視
+    if (this.configPath) {
+      this.configWatcher = new ConfigWatcher(this.configPath, (config) => this.applyConfig(config));
+      this.configWatcher.start();
+    }
+  }
+
+  /**
+   * 外部システムからの実行用HTTP APIを起動
+   * @param config HTTP API設定
+   */
+  private async startTriggerApi(config: ApiConfig): Promise<void> {
+    const server = new TriggerApiServer(config, {
+      startRun: (client, request) => this.startApiRun(client, request),
+      getJobs: (client) => this.getApiJobs(client),
+    });
+    await server.start();
+    this.triggerApi = server;
+  }
+
+  /**
+   * HTTP APIのクライアントに返すジョブ一覧を取得
+   * クライアントに許可されていないプロジェクト・チャンネルのジョブは含めない
+   * @param client 認証済みのクライアント
+   * @returns 実行中・待機中のジョブ
+   */
+  private getApiJobs(client: ApiClientConfig): { running: JobStatus[]; pending: JobStatus[] } {
+    const isVisible = (job: JobStatus): boolean =>
+      (!client.projects || client.projects.includes(job.projectName)) &&
+      (!client.channels || client.channels.includes(job.channelId));
+    return {
+      running: this.jobQueue.getRunning().filter(isVisible),
+      pending: this.jobQueue.getPending().filter(isVisible),
+    };
+  }
+
+  /**
+   * 再読み込みした設定を反映
+   * 実行中・待機中のジョブとスレッドセッションはそのまま維持する
+   * @param config 新しいアプリケーション設定
+   */
+  private async applyConfig(config: AppConfig): Promise<void> {
+    const previous = this.config;
+    const ignored = RESTART_REQUIRED_SETTINGS.filter((key) => getSetting(previous, key) !== getSetting(config, key));
+    if (ignored.length > 0) {
+      logger.warn('再起動するまで反映されない設定が変更されています', { settings: ignored });
+    }
+
+    this.config = config;
+    this.slackClient.updateSettings(config.slack);
+    this.jobQueue.setMaxConcurrency(config.claude?.maxConcurrentJobs ?? DEFAULT_MAX_CONCURRENT_JOBS);
+    this.accessController.updateConfig(config);
+    this.approvalManager.updateConfig(config);
+    this.scheduler.update(Object.values(config.schedules ?? {}));
+    // api 設定を削除した場合はすべてのクライアントを拒否する
+    this.triggerApi?.updateConfig(config.api ?? { clients: {} });
+
+    const interval = config.slack.pollingInterval || DEFAULT_POLLING_INTERVAL_MS;
+    if (this.pollingTimer && interval !== (previous.slack.pollingInterval || DEFAULT_POLLING_INTERVAL_MS)) {
+      clearInterval(this.pollingTimer);
+      this.startPolling();
+    }
+
+    // 承認が新たに有効になった場合は承認用MCPサーバーを起動
+    if (!this.approvalServer && isApprovalEnabled(config)) {
+      const server = new ApprovalServer(config.claude?.approvalPort);
+      try {
+        await server.start();
+        this.approvalServer = server;
+      } catch (err) {
+        logger.error('承認サーバーの起動エラー', err as Error);
+      }
+    }
+
+    // HTTP APIが新たに設定された場合は起動
+    if (!this.triggerApi && config.api) {
+      await this.startTriggerApi(config.api).catch((err) => logger.error('HTTP APIの起動エラー', err as Error));
+    }
+
+    logger.info('設定を反映しました', {
+      projectCount: Object.keys(config.projects).length,
+      channelCount: Object.keys(config.channels ?? {}).length,
+    });
+  }
+
+  /**
+   * 設定された方式でメッセージ受信を開始
+   * イベント受信の開始に失敗した場合はポーリングに切り替える
+   */
+  private async startIngestion(): Promise<void> {
+    const mode = this.config.slack.mode ?? 'polling';
+    if (mode === 'polling') {
+      this.startPolling();
+      return;
+    }
+
+    try {
+      const handler = (event: SlackEvent) => this.handleEvent(event);
+      this.receiver =
+        mode === 'socket'
+          ? new SocketModeReceiver(this.config.slack, handler)
+          : new EventsApiReceiver(this.config.slack, handler);
+      await this.receiver.start();
+      logger.info('イベント受信開始', { mode });
+
+      // 停止中に投稿されたメッセージを一度だけ取得
+      await this.poll();
+    } catch (err) {
+      if (this.config.slack.fallbackToPolling === false) {
+        throw err;
+      }
+      logger.error('イベント受信の開始に失敗したためポーリングに切り替えます', err as Error, { mode });
+      this.receiver = undefined;
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Botを停止
+   * 未保存のセッション情報を書き出す
+   */
+  async stop(): Promise<void> {
+    logger.info('Slack Claude Bot 停止');
+    this.configWatcher?.stop();
+    this.scheduler.stop();
+    this.maintenanceTimers.forEach((timer) => clearInterval(timer));
+    this.maintenanceTimers = [];
+    if (this.pollingTimer) {
+      clearInterval(this.pollingTimer);
+      this.pollingTimer = undefined;
+    }
+    // 停止後にSlack APIを呼ばないよう、実行中のポーリングの完了を待つ
+    await this.polling;
+    await this.receiver?.stop();
+    await this.approvalServer?.stop();
+    await this.triggerApi?.stop();
+    await this.store.close();
+  }
+
+  /**
+   * 保持期間を過ぎたセッションデータを削除
+   * セッションに紐づくworktreeも合わせて削除する
+   */
+  private async pruneStore(): Promise<void> {
+    const cutoff = Date.now() - getRetentionMs(this.config.storage);
+
+    // セッション削除後はworktreeのパスが分からなくなるため先に削除する
+    for (const [key, session] of this.store.getThreadSessions()) {
+      if (session.worktreePath && getSessionActivityTime(key, session) < cutoff) {
+        await this.removeSessionWorktree(key, session);
+      }
+    }
+
+    try {
+      this.store.prune(cutoff);
+      // 月間の利用上限の判定に使うため、今月分の利用量は保持期間に関わらず残す
+      this.store.pruneUsage(Math.min(cutoff, getPeriodStart('monthly')));
+    } catch (err) {
+      logger.error('セッションデータ削除エラー', err as Error);
+    }
   }
 
   /**
    * ポーリングを開始
    */
   private startPolling(): void {
-    const interval = this.config.slack.pollingInterval || 10000;
+    const interval = this.config.slack.pollingInterval || DEFAULT_POLLING_INTERVAL_MS;
     logger.info('ポーリング開始', { interval });
 
-    setInterval(() => this.poll(), interval);
+    this.pollingTimer = setInterval(() => this.poll(), interval);
+  }
+
+  /**
+   * 受信したイベントを処理
+   * 監視対象チャンネルのメッセージを、新規コマンドまたはスレッド返信として振り分ける
+   * @param event Slackイベント
+   */
+  private async handleEvent(event: SlackEvent): Promise<void> {
+    if (event.type === 'reaction_added') {
+      if (event.item?.type === 'message' && event.item.channel && event.item.ts && event.reaction) {
+        this.approvalManager.handleReaction(event.item.channel, event.item.ts, event.reaction, event.user);
+        await this.handleReaction(event.item.channel, event.item.ts, event.reaction, event.user);
+      }
+      return;
+    }
+
+    if (event.type === 'block_action') {
+      this.approvalManager.handleAction(event.action_id, event.value, event.user);
+      return;
+    }
+
+    const message = toSlackMessage(event);
+    if (!message) {
+      return;
+    }
+
+    const channelId = message.channel;
+    if (!(channelId in (this.config.channels || {}))) {
+      return;
+    }
+
+    // スレッド返信の場合はセッションがあるスレッドのみ処理
+    if (message.thread_ts && message.thread_ts !== message.ts) {
+      const threadTs = message.thread_ts;
+      const sessionKey = this.getSessionKey(channelId, threadTs);
+      const session = this.store.getThreadSession(sessionKey);
+      if (!session) {
+        return;
+      }
+      const cursor = this.store.getThreadCursor(sessionKey);
+      if (!cursor || parseFloat(message.ts) > parseFloat(cursor)) {
+        this.store.setThreadCursor(sessionKey, message.ts);
+      }
+      await this.handleThreadReply(message, channelId, threadTs, session);
+      return;
+    }
+
+    // ポーリングへ切り替えた場合に再取得しないよう監視位置を進める
+    const cursor = this.store.getChannelCursor(channelId);
+    if (!cursor || parseFloat(message.ts) > parseFloat(cursor)) {
+      this.store.setChannelCursor(channelId, message.ts);
+    }
+    await this.handleMessage(message, channelId);
   }
 
   /**
    * チャンネルをポーリング
+   * 前回のポーリングが実行中の場合は、その完了を待つ
    */
-  private async poll(): Promise<void> {
+  private poll(): Promise<void> {
+    this.polling ??= this.pollChannels().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  /**
+   * 設定されている全チャンネルとアクティブなスレッドをポーリング
+   */
+  private async pollChannels(): Promise<void> {
     try {
       // 設定されている全チャンネルをポーリング
       const channelIds = Object.keys(this.config.channels || {});
 
+      // 1つのチャンネルでエラーが発生しても他のチャンネルのポーリングは続ける
       for (const channelId of channelIds) {
-        await this.pollChannel(channelId);
+        try {
+          await this.pollChannel(channelId);
+        } catch (err) {
+          logger.error('チャンネルのポーリングエラー', err as Error, { channelId });
+        }
         // アクティブなスレッドもポーリング
         await this.pollActiveThreads(channelId);
       }
+
+      // イベント受信時はreaction_addedで検知するため、ポーリング時のみ確認
+      if (!this.receiver) {
+        await this.pollCancelReactions();
+        await this.approvalManager.pollReactions();
+      }
     } catch (err) {
       logger.error('ポーリングエラー', err as Error);
     }
@@ -130,16 +617,17 @@ class SlackClaudeBot {
    * @param channelId チャンネルID
    */
   private async pollChannel(channelId: string): Promise<void> {
-    const messages = await this.slackClient.getChannelHistory(channelId, this.lastTimestamp);
+    const cursor = this.store.getChannelCursor(channelId) ?? this.startTimestamp;
+    const messages = await this.slackClient.getChannelHistory(channelId, cursor);
 
+    // 古い順に処理し、処理したメッセージまで監視位置を進める
     for (const message of messages) {
-      await this.handleMessage(message, channelId);
-    }
-
-    // 最新のタイムスタンプを更新
-    if (messages.length > 0) {
-      const latestTs = Math.max(...messages.map((m) => parseFloat(m.ts)));
-      this.lastTimestamp = latestTs.toString();
+      try {
+        await this.handleMessage(message, channelId);
+      } catch (err) {
+        logger.error('メッセージ処理エラー', err as Error, { channelId, ts: message.ts });
+      }
+      this.store.setChannelCursor(channelId, message.ts);
     }
   }
 
@@ -149,24 +637,46 @@ class SlackClaudeBot {
    */
   private async pollActiveThreads(channelId: string): Promise<void> {
     // このチャンネルのアクティブなスレッドを取得
-    const activeThreads = Array.from(threadSessions.entries())
+    const activeThreads = this.store
+      .getThreadSessions()
       .filter(([key]) => key.startsWith(`${channelId}:`))
       .map(([key, session]) => ({
         threadTs: key.split(':')[1],
         session,
       }));
 
+    const now = Date.now();
     for (const { threadTs, session } of activeThreads) {
       const sessionKey = this.getSessionKey(channelId, threadTs);
-      const lastChecked = threadLastChecked.get(sessionKey) || threadTs;
+      const cursor = this.store.getThreadCursor(sessionKey);
+
+      // しばらくやり取りのないスレッドは間隔を空けて確認する
+      if (!this.threadPollScheduler.isDue(sessionKey, getThreadLastActivity(sessionKey, session, cursor), now)) {
+        continue;
+      }
+      this.threadPollScheduler.markPolled(sessionKey, now);
 
       try {
-        const replies = await this.slackClient.getThreadReplies(channelId, threadTs, lastChecked);
+        const replies = await this.slackClient.getThreadReplies(channelId, threadTs, cursor || threadTs);
+
+        // 親メッセージに終了用リアクションが付いていればセッションを終了（実行中のジョブがある場合は完了後）
+        const parent = replies.find((reply) => reply.ts === threadTs);
+        const closeUsers = (parent?.reactions ?? [])
+          .filter((reaction) => CLOSE_REACTIONS.has(reaction.name))
+          .flatMap((reaction) => reaction.users)
+          .filter((userId) => userId !== this.botUserId);
+        if (
+          closeUsers.length > 0 &&
+          !this.hasActiveJobs(sessionKey) &&
+          (await this.closeByReaction(channelId, threadTs, closeUsers))
+        ) {
+          continue;
+        }
 
         // 最新のタイムスタンプを更新
         if (replies.length > 0) {
           const latestTs = Math.max(...replies.map((m) => parseFloat(m.ts)));
-          threadLastChecked.set(sessionKey, latestTs.toString());
+          this.store.setThreadCursor(sessionKey, latestTs.toString());
         }
 
         // 新しい返信を処理
@@ -200,25 +710,53 @@ class SlackClaudeBot {
    */
   private async handleMessage(message: SlackMessage, channelId: string): Promise<void> {
     // 処理済みメッセージはスキップ
-    if (processedMessages.has(message.ts)) {
+    if (this.store.isProcessed(message.ts)) {
       return;
     }
 
     // Botからのメッセージはスキップ
     if (message.user === this.botUserId) {
-      processedMessages.add(message.ts);
+      this.store.markProcessed(message.ts);
+      return;
+    }
+
+    // Bot自身のコマンド（このチャンネルでいずれかのプロジェクトを実行できるユーザーのみ）
+    const metaCommand = parseMetaCommand(message.text ?? '');
+    if (metaCommand) {
+      this.store.markProcessed(message.ts);
+      const allowedProjects = await this.accessController.getAllowedProjects(message.user, channelId);
+      if (allowedProjects.length === 0) {
+        logger.warn('アクセス拒否（Botのコマンド）', { userId: message.user, channelId, command: metaCommand });
+        await this.slackClient.postMessage(
+          channelId,
+          'エラー: このチャンネルでBotのコマンドを使用する権限がありません',
+          message.ts
+        );
+        return;
+      }
+      await this.handleMetaCommand(metaCommand, channelId, message.ts, undefined, message.user);
       return;
     }
 
     // 通常のメッセージ処理
-    const defaultProject = this.config.channels?.[channelId];
-    const command = parseCommand(message, defaultProject);
+    const defaultProject = this.config.channels?.[channelId]?.defaultProject;
+    let command: ParsedCommand | null;
+    try {
+      command = parseCommand(message, defaultProject);
+    } catch (err) {
+      if (!(err instanceof RunOptionError)) {
+        throw err;
+      }
+      this.store.markProcessed(message.ts);
+      await this.slackClient.postMessage(channelId, `エラー: ${err.message}`, message.ts);
+      return;
+    }
 
     if (!command) {
       return;
     }
 
-    processedMessages.add(message.ts);
+    this.store.markProcessed(message.ts);
 
     logger.info('コマンド検出', {
       channelId,
@@ -227,8 +765,8 @@ class SlackClaudeBot {
     });
 
     // プロジェクトパスを取得
-    const projectPath = this.config.projects[command.projectName];
-    if (!projectPath) {
+    const project = this.config.projects[command.projectName];
+    if (!project?.path) {
       await this.slackClient.postMessage(
         channelId,
         `エラー: プロジェクト "${command.projectName}" が見つかりません`,
@@ -237,66 +775,228 @@ class SlackClaudeBot {
       return;
     }
 
-    // 処理中メッセージを投稿
-    await this.slackClient.postMessage(channelId, '処理中...', message.ts);
+    // 実行権限を確認
+    const decision = await this.accessController.authorize(message.user, command.projectName, channelId);
+    if (!decision.allowed) {
+      await this.slackClient.postMessage(channelId, `エラー: ${decision.reason}`, message.ts);
+      return;
+    }
 
-    // 画像をダウンロード
-    const imagePaths: string[] = [];
-    if (message.files) {
-      for (const file of message.files) {
-        if (file.mimetype?.startsWith('image/')) {
-          try {
-            const filePath = await this.slackClient.downloadImage(file);
-            imagePaths.push(filePath);
-          } catch (err) {
-            logger.error('画像ダウンロードエラー', err as Error);
-          }
-        }
+    // 実行オプションがプロジェクトの上限内か確認
+    try {
+      resolveRunOptions(project.run, command.options);
+    } catch (err) {
+      if (!(err instanceof RunOptionError)) {
+        throw err;
       }
+      await this.slackClient.postMessage(channelId, `エラー: ${err.message}`, message.ts);
+      return;
     }
 
-    // Claude Code CLI実行（セッションIDを取得）
-    const result = await executeClaudeCodeWithSession({
-      prompt: command.prompt,
-      cwd: projectPath,
-      images: imagePaths.length > 0 ? imagePaths : undefined,
-      systemPrompt: this.config.claude?.systemPrompt,
-    });
-
-    // 結果を投稿
-    let responseText = result.output || '（出力なし）';
-    if (!result.success && result.error) {
-      responseText = `エラー:\n${result.error}\n\n出力:\n${result.output}`;
+    // テンプレートの引数を確認
+    const templateError = this.checkTemplateInvocation(command.prompt);
+    if (templateError) {
+      await this.slackClient.postMessage(channelId, `エラー: ${templateError}`, message.ts);
+      return;
     }
 
-    // ファイル操作一覧を追加
-    if (result.modifiedFiles && result.modifiedFiles.length > 0) {
-      responseText += formatFileOperations(result.modifiedFiles, projectPath);
+    // 利用上限を確認
+    const budgetError = this.checkBudget(message.user, command.projectName, channelId);
+    if (budgetError) {
+      await this.slackClient.postMessage(channelId, `エラー: ${budgetError}`, message.ts);
+      return;
     }
 
-    // Slackの文字数制限を考慮（4000文字）
-    if (responseText.length > 3900) {
-      responseText = responseText.substring(0, 3900) + '\n...(省略)';
+    if (!(await this.createThreadSession(channelId, message.ts, project, command.options))) {
+      return;
     }
 
-    await this.slackClient.postMessage(channelId, responseText, message.ts);
+    this.enqueueClaudeJob(message, channelId, message.ts, command.prompt);
+  }
 
-    // スレッドセッションを保存
-    const sessionKey = this.getSessionKey(channelId, message.ts);
-    threadSessions.set(sessionKey, {
-      projectName: command.projectName,
-      projectPath,
-      sessionId: result.sessionId,
+  /**
+   * スレッドセッションを作成
+   * 実行完了前のスレッド返信も同じセッションとして順番に処理できるよう、実行前に登録する
+   * @param channelId チャンネルID
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param project プロジェクト設定
+   * @param runOptions 依頼時に指定された実行オプション
+   * @returns 作成できた場合true（worktreeの作成に失敗した場合はスレッドにエラーを投稿してfalse）
+   */
+  private async createThreadSession(
+    channelId: string,
+    threadTs: string,
+    project: ProjectConfig,
+    runOptions: RunOptions = {}
+  ): Promise<boolean> {
+    // worktree使用時はスレッド専用のworktreeを作成
+    const worktree = project.worktree ? getThreadWorktree(project, channelId, threadTs) : undefined;
+    if (worktree) {
+      try {
+        await createWorktree(project.path, worktree);
+      } catch (err) {
+        logger.error('worktree作成エラー', err as Error, { channelId, projectName: project.name });
+        await this.slackClient.postMessage(
+          channelId,
+          `エラー: worktreeの作成に失敗しました: ${(err as Error).message}`,
+          threadTs
+        );
+        return false;
+      }
+    }
+
+    const sessionKey = this.getSessionKey(channelId, threadTs);
+    const now = Date.now();
+    this.store.setThreadSession(sessionKey, {
+      projectName: project.name,
+      projectPath: project.path,
+      worktreePath: worktree?.path,
+      branch: worktree?.branch,
+      runOptions: Object.keys(runOptions).length > 0 ? runOptions : undefined,
+      createdAt: now,
+      updatedAt: now,
     });
 
     // 初期のlastCheckedを設定
-    threadLastChecked.set(sessionKey, message.ts);
+    this.store.setThreadCursor(sessionKey, threadTs);
 
     logger.info('スレッドセッション作成', {
       sessionKey,
-      projectName: command.projectName,
-      sessionId: result.sessionId,
+      projectName: project.name,
+      branch: worktree?.branch,
     });
+    return true;
+  }
+
+  /**
+   * 定期実行を開始
+   * チャンネルに見出しのメッセージを投稿し、そのスレッドのセッションとして実行する
+   * 以降は通常のスレッドと同じく、返信で会話を継続できる
+   * @param schedule 定期実行設定
+   */
+  private async runSchedule(schedule: ScheduleConfig): Promise<void> {
+    const { channel: channelId, prompt } = schedule;
+    const project = this.config.projects[schedule.project];
+    if (!project) {
+      logger.warn('定期実行のプロジェクトが見つかりません', { name: schedule.name, project: schedule.project });
+      return;
+    }
+
+    const budgetError = this.checkBudget(undefined, project.name, channelId);
+    if (budgetError) {
+      await this.slackClient.postMessage(
+        channelId,
+        `:alarm_clock: 定期実行「${schedule.name}」をスキップしました: ${budgetError}`
+      );
+      return;
+    }
+
+    await this.startThreadRun(
+      project,
+      channelId,
+      `:alarm_clock: **定期実行: ${schedule.name}**（\`${project.name}\`）`,
+      prompt
+    );
+  }
+
+  /**
+   * HTTP APIからの実行を開始
+   * @param client 認証済みのクライアント
+   * @param request 実行開始リクエスト
+   * @returns 開始した実行
+   * @throws {TriggerApiError} プロジェクト・チャンネルが不正、権限がない、利用上限に達した場合など
+   */
+  private async startApiRun(client: ApiClientConfig, request: RunRequest): Promise<StartedRun> {
+    const project = this.config.projects[request.project];
+    if (!project) {
+      throw new TriggerApiError(404, `プロジェクト "${request.project}" が見つかりません`);
+    }
+    if (client.projects && !client.projects.includes(project.name)) {
+      throw new TriggerApiError(403, `プロジェクト "${project.name}" を実行する権限がありません`);
+    }
+
+    // 省略時はプロジェクトをデフォルトにしているチャンネルに投稿
+    const channels = this.config.channels ?? {};
+    const channelId =
+      request.channel ?? Object.values(channels).find((channel) => channel.defaultProject === project.name)?.channelId;
+    if (!channelId) {
+      throw new TriggerApiError(400, `プロジェクト "${project.name}" をデフォルトにしているチャンネルがないため、channel を指定してください`);
+    }
+    // スレッドへの返信を受信するため、監視対象のチャンネルに限る
+    if (!(channelId in channels)) {
+      throw new TriggerApiError(400, `チャンネル "${channelId}" は監視対象ではありません`);
+    }
+    if (client.channels && !client.channels.includes(channelId)) {
+      throw new TriggerApiError(403, `チャンネル "${channelId}" に投稿する権限がありません`);
+    }
+
+    const budgetError = this.checkBudget(undefined, project.name, channelId);
+    if (budgetError) {
+      throw new TriggerApiError(429, budgetError);
+    }
+
+    const started = await this.startThreadRun(
+      project,
+      channelId,
+      `:satellite_antenna: **API実行**（${client.name}, \`${project.name}\`）`,
+      request.prompt
+    );
+    if (!started) {
+      throw new TriggerApiError(502, 'Slackへの投稿またはセッションの作成に失敗しました');
+    }
+
+    const { threadTs, job, done } = started;
+    return {
+      channelId,
+      threadTs,
+      isStarted: () => job.started,
+      done: done.then((): RunOutcome => {
+        const { result } = job;
+        if (!result) {
+          const cancelled = job.controller.signal.aborted;
+          return { success: false, cancelled, error: cancelled ? 'キャンセルされました' : '実行できませんでした' };
+        }
+        return {
+          success: result.success && !result.cancelled,
+          cancelled: result.cancelled,
+          error: result.error,
+          costUsd: result.usage?.costUsd,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Botの投稿を親とする新しいスレッドで実行を開始（定期実行・HTTP APIからの実行用）
+   * 以降は通常のスレッドと同じく、返信で会話を継続できる
+   * @param project プロジェクト設定
+   * @param channelId 投稿先のチャンネルID
+   * @param heading 親メッセージの見出し（Markdown）
+   * @param prompt プロンプト
+   * @returns キューに投入したジョブ。投稿・セッション作成に失敗した場合はundefined
+   */
+  private async startThreadRun(
+    project: ProjectConfig,
+    channelId: string,
+    heading: string,
+    prompt: string
+  ): Promise<{ threadTs: string; job: ActiveJob; done: Promise<void> } | undefined> {
+    const quoted = prompt
+      .split('\n')
+      .map((line) => `> ${line}`)
+      .join('\n');
+    const threadTs = await this.slackClient.postMessage(channelId, `${heading}\n${quoted}`);
+    if (!threadTs) {
+      return undefined;
+    }
+    this.store.markProcessed(threadTs);
+
+    if (!(await this.createThreadSession(channelId, threadTs, project))) {
+      return undefined;
+    }
+
+    const queued = this.enqueueClaudeJob({ ts: threadTs, channel: channelId, text: prompt }, channelId, threadTs, prompt);
+    return queued ? { threadTs, ...queued } : undefined;
   }
 
   /**
@@ -313,17 +1013,17 @@ class SlackClaudeBot {
     session: ThreadSession
   ): Promise<void> {
     // 処理済みメッセージはスキップ
-    if (processedMessages.has(message.ts)) {
+    if (this.store.isProcessed(message.ts)) {
       return;
     }
 
     // Botからのメッセージはスキップ
     if (message.user === this.botUserId) {
-      processedMessages.add(message.ts);
+      this.store.markProcessed(message.ts);
       return;
     }
 
-    processedMessages.add(message.ts);
+    this.store.markProcessed(message.ts);
 
     const prompt = message.text?.trim();
     if (!prompt) {
@@ -336,65 +1036,841 @@ class SlackClaudeBot {
       return;
     }
 
+    // 実行権限を確認（スレッド内でもプロジェクト・チャンネルのルールを適用）
+    const decision = await this.accessController.authorize(message.user, session.projectName, channelId);
+    if (!decision.allowed) {
+      await this.slackClient.postMessage(channelId, `エラー: ${decision.reason}`, threadTs);
+      return;
+    }
+
+    // Bot自身のコマンド
+    const metaCommand = parseMetaCommand(cleanPrompt);
+    if (metaCommand) {
+      await this.handleMetaCommand(metaCommand, channelId, threadTs, session, message.user);
+      return;
+    }
+
+    // 先頭の実行オプションは、このスレッドの以降の実行に適用する
+    let parsed: { options: RunOptions; prompt: string };
+    try {
+      parsed = parseRunOptions(cleanPrompt);
+      if (Object.keys(parsed.options).length > 0) {
+        const runOptions = { ...session.runOptions, ...parsed.options };
+        resolveRunOptions(this.config.projects[session.projectName]?.run, runOptions);
+        session.runOptions = runOptions;
+        this.store.setThreadSession(this.getSessionKey(channelId, threadTs), session);
+      }
+    } catch (err) {
+      if (!(err instanceof RunOptionError)) {
+        throw err;
+      }
+      await this.slackClient.postMessage(channelId, `エラー: ${err.message}`, threadTs);
+      return;
+    }
+    if (!parsed.prompt) {
+      await this.slackClient.postMessage(
+        channelId,
+        `実行オプションを変更しました（${formatRunOptions(session.runOptions ?? {})}）。次の返信から適用します。`,
+        threadTs
+      );
+      return;
+    }
+
+    const templateError = this.checkTemplateInvocation(parsed.prompt);
+    if (templateError) {
+      await this.slackClient.postMessage(channelId, `エラー: ${templateError}`, threadTs);
+      return;
+    }
+
+    // 利用上限を確認
+    const budgetError = this.checkBudget(message.user, session.projectName, channelId);
+    if (budgetError) {
+      await this.slackClient.postMessage(channelId, `エラー: ${budgetError}`, threadTs);
+      return;
+    }
+
     logger.info('スレッド内メッセージ処理', {
       channelId,
       threadTs,
       projectName: session.projectName,
-      promptLength: cleanPrompt.length,
+      promptLength: parsed.prompt.length,
       sessionId: session.sessionId,
+      runOptions: session.runOptions,
+    });
+
+    this.enqueueClaudeJob(message, channelId, threadTs, parsed.prompt);
+  }
+
+  /**
+   * Bot自身のコマンドを処理
+   * @param command コマンド
+   * @param channelId チャンネルID
+   * @param threadTs 応答先のスレッドの親タイムスタンプ
+   * @param session スレッドセッション情報（スレッド内のコマンドの場合）
+   * @param userId コマンドを送信したユーザーID
+   */
+  private async handleMetaCommand(
+    command: MetaCommand,
+    channelId: string,
+    threadTs: string,
+    session?: ThreadSession,
+    userId?: string
+  ): Promise<void> {
+    logger.info('コマンド実行', { command, channelId, threadTs, userId });
+
+    switch (command) {
+      case 'help':
+        await this.slackClient.postMessage(channelId, formatHelp(this.config.templates), threadTs);
+        return;
+      case 'projects':
+        await this.slackClient.postMessage(channelId, formatProjects(this.config), threadTs);
+        return;
+      case 'status': {
+        const isVisible = await this.getVisibleProjectFilter(userId, channelId);
+        await this.slackClient.postMessage(
+          channelId,
+          formatJobStatus(
+            this.jobQueue.getRunning().filter((job) => isVisible(job.projectName)),
+            this.jobQueue.getPending().filter((job) => isVisible(job.projectName))
+          ),
+          threadTs
+        );
+        return;
+      }
+      case 'sessions':
+        await this.slackClient.postMessage(
+          channelId,
+          formatSessions(this.store.getThreadSessions(), channelId),
+          threadTs
+        );
+        return;
+      case 'usage': {
+        const isVisible = await this.getVisibleProjectFilter(userId, channelId);
+        const records = this.store
+          .getUsageRecords(getPeriodStart('monthly'))
+          .filter((record) => isVisible(record.projectName));
+        await this.slackClient.postMessage(channelId, formatUsage(records, this.config.budgets), threadTs);
+        return;
+      }
+    }
+
+    // 以降はスレッド内でのみ使用できるコマンド
+    if (!session) {
+      await this.slackClient.postMessage(
+        channelId,
+        `\`!claude ${command}\` はClaudeとの会話スレッド内で使用してください`,
+        threadTs
+      );
+      return;
+    }
+
+    switch (command) {
+      case 'cancel':
+        await this.cancelThreadJobs(channelId, threadTs, userId);
+        return;
+      case 'close':
+        await this.closeThreadSession(channelId, threadTs, session, userId);
+        return;
+      case 'reset':
+        await this.resetThreadSession(channelId, threadTs, session, userId);
+        return;
+    }
+  }
+
+  /**
+   * `!claude status` / `!claude usage` で表示するプロジェクトの判定関数を取得
+   * 管理者以外には、このチャンネルで自分が実行できるプロジェクトのジョブ・利用量のみ表示する
+   * @param userId コマンドを実行したユーザーID
+   * @param channelId チャンネルID
+   * @returns プロジェクト名を受け取り、表示する場合にtrueを返す関数
+   */
+  private async getVisibleProjectFilter(
+    userId: string | undefined,
+    channelId: string
+  ): Promise<(projectName: string) => boolean> {
+    if (this.accessController.isAdmin(userId)) {
+      return () => true;
+    }
+    const allowed = new Set(await this.accessController.getAllowedProjects(userId, channelId));
+    return (projectName) => allowed.has(projectName);
+  }
+
+  /**
+   * テンプレートの呼び出しに必要な引数が指定されているか確認
+   * @param prompt プロンプト
+   * @returns エラーメッセージ。テンプレートの呼び出しでない場合や問題がない場合はundefined
+   */
+  private checkTemplateInvocation(prompt: string): string | undefined {
+    const invocation = parseTemplateInvocation(prompt, this.config.templates);
+    return invocation ? checkTemplateArgs(invocation) : undefined;
+  }
+
+  /**
+   * テンプレートの展開に使う値を取得
+   * ユーザー名・チャンネル名を取得できない場合（スコープ不足など）はIDを使う
+   * @param job ジョブ
+   * @param session スレッドセッション
+   * @param args テンプレートの引数
+   * @param cwd 作業ディレクトリ
+   * @returns 展開に使う値
+   */
+  private async getTemplateContext(
+    job: ActiveJob,
+    session: ThreadSession,
+    args: string,
+    cwd: string
+  ): Promise<TemplateContext> {
+    const { channelId, userId } = job;
+    const [user, channel, branch] = await Promise.all([
+      userId
+        ? this.slackClient.getUserName(userId).catch((err) => {
+            logger.warn('ユーザー名の取得に失敗したためIDを使います', { userId, error: (err as Error).message });
+            return userId;
+          })
+        : '',
+      this.slackClient.getChannelName(channelId).catch((err) => {
+        logger.warn('チャンネル名の取得に失敗したためIDを使います', { channelId, error: (err as Error).message });
+        return channelId;
+      }),
+      getCurrentBranch(cwd).catch(() => ''),
+    ]);
+    return { args, user, channel, branch, project: session.projectName };
+  }
+
+  /**
+   * 利用上限を確認
+   * @param userId 依頼したユーザーID
+   * @param projectName プロジェクト名
+   * @param channelId チャンネルID
+   * @returns 上限に達している場合は拒否理由、それ以外はundefined
+   */
+  private checkBudget(userId: string | undefined, projectName: string, channelId: string): string | undefined {
+    const reason = checkBudget(this.config.budgets, this.store.getUsageRecords(getPeriodStart('monthly')), {
+      userId,
+      projectName,
+      channelId,
+    });
+    if (reason) {
+      logger.warn('利用上限による実行拒否', { userId, projectName, channelId, reason });
+    }
+    return reason;
+  }
+
+  /**
+   * スレッドのClaudeセッションをリセット
+   * 次の返信から --resume せずに新しいセッションで実行する（worktreeはそのまま使う）
+   * @param channelId チャンネルID
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param session スレッドセッション情報
+   * @param userId リセットしたユーザーID
+   */
+  private async resetThreadSession(
+    channelId: string,
+    threadTs: string,
+    session: ThreadSession,
+    userId?: string
+  ): Promise<void> {
+    const sessionKey = this.getSessionKey(channelId, threadTs);
+    // 実行中のジョブが完了時にセッションIDを書き戻すため、ジョブがない場合のみリセットする
+    if (this.hasActiveJobs(sessionKey)) {
+      await this.slackClient.postMessage(
+        channelId,
+        '実行中または待機中のジョブがあるためリセットできません。先に `!claude cancel` でキャンセルしてください',
+        threadTs
+      );
+      return;
+    }
+
+    logger.info('Claudeセッションリセット', { sessionKey, userId, sessionId: session.sessionId });
+
+    this.store.setThreadSession(sessionKey, {
+      ...session,
+      sessionId: undefined,
+      updatedAt: Date.now(),
     });
+    await this.slackClient.postMessage(
+      channelId,
+      'Claudeのセッションをリセットしました。次の返信から新しいセッションで会話を始めます。',
+      threadTs
+    );
+  }
+
+  /**
+   * スレッドのジョブをキャンセル
+   * 実行中のジョブはCLIプロセスを終了し、結果（変更済みファイル）は実行側で投稿する
+   * @param channelId チャンネルID
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param userId キャンセルしたユーザーID
+   */
+  private async cancelThreadJobs(channelId: string, threadTs: string, userId?: string): Promise<void> {
+    const sessionKey = this.getSessionKey(channelId, threadTs);
+    const jobs = Array.from(this.activeJobs).filter(
+      (job) => job.sessionKey === sessionKey && !job.controller.signal.aborted
+    );
+
+    if (jobs.length === 0) {
+      await this.slackClient.postMessage(channelId, 'キャンセルできる実行中のジョブはありません', threadTs);
+      return;
+    }
+
+    logger.info('ジョブキャンセル', { sessionKey, userId, jobCount: jobs.length });
+
+    for (const job of jobs) {
+      job.controller.abort();
+    }
+
+    const pendingCount = jobs.filter((job) => !job.started).length;
+    if (pendingCount > 0) {
+      await this.slackClient.postMessage(
+        channelId,
+        `待機中のジョブ${pendingCount}件をキャンセルしました`,
+        threadTs
+      );
+    }
+  }
+
+  /**
+   * スレッドのセッションを終了
+   * worktreeを削除し、以降のスレッド返信には反応しない
+   * @param channelId チャンネルID
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param session スレッドセッション情報
+   * @param userId 終了したユーザーID
+   * @returns セッションを終了した場合true（ジョブがあるため終了しなかった場合はfalse）
+   */
+  private async closeThreadSession(
+    channelId: string,
+    threadTs: string,
+    session: ThreadSession,
+    userId?: string
+  ): Promise<boolean> {
+    if (this.hasActiveJobs(this.getSessionKey(channelId, threadTs))) {
+      await this.slackClient.postMessage(
+        channelId,
+        '実行中または待機中のジョブがあるため終了できません。先に `!claude cancel` でキャンセルしてください',
+        threadTs
+      );
+      return false;
+    }
+
+    logger.info('スレッドセッション終了', { channelId, threadTs, userId, branch: session.branch });
+    await this.endThreadSession(channelId, threadTs, session, 'セッションを終了しました。');
+    return true;
+  }
+
+  /**
+   * スレッドのセッションを削除し、スレッドに通知
+   * @param channelId チャンネルID
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param session スレッドセッション情報
+   * @param notice スレッドに投稿する通知
+   */
+  private async endThreadSession(
+    channelId: string,
+    threadTs: string,
+    session: ThreadSession,
+    notice: string
+  ): Promise<void> {
+    const sessionKey = this.getSessionKey(channelId, threadTs);
+    const worktreeNote = session.worktreePath
+      ? this.formatWorktreeNote(session, await this.removeSessionWorktree(sessionKey, session))
+      : '';
+    this.store.deleteThreadSession(sessionKey);
+    this.threadPollScheduler.forget(sessionKey);
+
+    await this.slackClient.postMessage(channelId, `${notice}${worktreeNote}`, threadTs);
+  }
+
+  /**
+   * スレッドセッションのworktreeを削除
+   * 未コミットの変更がある場合は、変更を失わないよう削除せずに残す
+   * @param sessionKey セッションキー
+   * @param session スレッドセッション情報（worktreePathが設定されていること）
+   * @returns 削除結果
+   */
+  private async removeSessionWorktree(sessionKey: string, session: ThreadSession): Promise<WorktreeRemoval> {
+    const worktreePath = session.worktreePath as string;
+    try {
+      if (await hasUncommittedChanges(worktreePath)) {
+        logger.warn('未コミットの変更があるためworktreeを削除しません', { sessionKey, worktreePath });
+        return 'dirty';
+      }
+      await removeWorktree(session.projectPath, worktreePath);
+      return 'removed';
+    } catch (err) {
+      logger.error('worktree削除エラー', err as Error, { sessionKey, worktreePath });
+      return 'failed';
+    }
+  }
+
+  /**
+   * worktreeの削除結果をスレッドへの通知文にする
+   * @param session スレッドセッション情報
+   * @param result worktreeの削除結果
+   * @returns 通知に追記する文
+   */
+  private formatWorktreeNote(session: ThreadSession, result: WorktreeRemoval): string {
+    const branch = session.branch ? `ブランチ \`${session.branch}\`` : 'ブランチ';
+    switch (result) {
+      case 'removed':
+        return `\nworktreeを削除しました。コミット済みの変更は${branch}に残っています。`;
+      case 'dirty':
+        return `\nworktree \`${session.worktreePath}\` に未コミットの変更があるため、削除せずに残しました。必要な変更を${branch}にコミットしてから、\`git worktree remove\` で削除してください。`;
+      case 'failed':
+        return `\nworktree \`${session.worktreePath}\` を削除できませんでした。ログを確認してください。`;
+    }
+  }
+
+  /**
+   * やり取りのないまま有効時間を過ぎたセッションを終了
+   * 実行中・待機中のジョブがあるセッションは対象外
+   */
+  private async expireIdleSessions(): Promise<void> {
+    const timeoutMs = getIdleTimeoutMs(this.config.sessions);
+    if (timeoutMs === undefined) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const [sessionKey, session] of this.store.getThreadSessions()) {
+      const lastActivity = getThreadLastActivity(sessionKey, session, this.store.getThreadCursor(sessionKey));
+      if (now - lastActivity < timeoutMs || this.hasActiveJobs(sessionKey)) {
+        continue;
+      }
 
-    // 処理中メッセージを投稿
-    await this.slackClient.postMessage(channelId, '処理中...', threadTs);
-
-    // 画像をダウンロード
-    const imagePaths: string[] = [];
-    if (message.files) {
-      for (const file of message.files) {
-        if (file.mimetype?.startsWith('image/')) {
-          try {
-            const filePath = await this.slackClient.downloadImage(file);
-            imagePaths.push(filePath);
-          } catch (err) {
-            logger.error('画像ダウンロードエラー', err as Error);
+      const [channelId, threadTs] = sessionKey.split(':');
+      const hours = Math.round((timeoutMs / (60 * 60 * 1000)) * 10) / 10;
+      logger.info('期限切れのスレッドセッションを終了', { sessionKey, lastActivity: new Date(lastActivity).toISOString() });
+      try {
+        await this.endThreadSession(
+          channelId,
+          threadTs,
+          session,
+          `${hours}時間やり取りがなかったため、セッションを終了しました。続ける場合は新しいスレッドで依頼してください。`
+        );
+      } catch (err) {
+        logger.error('期限切れセッションの終了エラー', err as Error, { sessionKey });
+      }
+    }
+  }
+
+  /**
+   * リアクションによるセッション終了
+   * スレッドの親メッセージに終了用リアクションが付いた場合、実行権限のあるユーザーであればセッションを終了する
+   * @param channelId チャンネルID
+   * @param threadTs リアクションが付いたメッセージ（スレッドの親）のタイムスタンプ
+   * @param userIds リアクションしたユーザーID一覧
+   * @returns セッションを終了した場合true
+   */
+  private async closeByReaction(
+    channelId: string,
+    threadTs: string,
+    userIds: Array<string | undefined>
+  ): Promise<boolean> {
+    const session = this.store.getThreadSession(this.getSessionKey(channelId, threadTs));
+    if (!session) {
+      return false;
+    }
+    for (const userId of userIds) {
+      const decision = await this.accessController.authorize(userId, session.projectName, channelId);
+      if (decision.allowed) {
+        logger.info('リアクションによるセッション終了', { channelId, threadTs, userId });
+        return this.closeThreadSession(channelId, threadTs, session, userId);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * セッションに実行中・待機中のジョブがあるか判定
+   * @param sessionKey セッションキー
+   * @returns ジョブがある場合true
+   */
+  private hasActiveJobs(sessionKey: string): boolean {
+    return Array.from(this.activeJobs).some((job) => job.sessionKey === sessionKey);
+  }
+
+  /**
+   * リアクションによるキャンセル・セッション終了
+   * 「処理中...」メッセージ（投稿しない設定の場合は依頼メッセージ）にキャンセル用リアクションが付いた場合はそのジョブを終了し、
+   * スレッドの親メッセージに終了用リアクションが付いた場合はセッションを終了する
+   * @param channelId チャンネルID
+   * @param ts リアクションが付いたメッセージのタイムスタンプ
+   * @param reaction リアクション名
+   * @param userId リアクションしたユーザーID
+   */
+  private async handleReaction(channelId: string, ts: string, reaction: string, userId?: string): Promise<void> {
+    if (userId === this.botUserId) {
+      return;
+    }
+    if (CLOSE_REACTIONS.has(reaction)) {
+      await this.closeByReaction(channelId, ts, [userId]);
+      return;
+    }
+    if (!CANCEL_REACTIONS.has(reaction)) {
+      return;
+    }
+
+    for (const job of this.activeJobs) {
+      if (job.channelId === channelId && this.getCancelTargetTs(job) === ts && !job.controller.signal.aborted) {
+        // 実行権限のあるユーザーのみキャンセル可能
+        const decision = await this.accessController.authorize(userId, job.projectName, channelId);
+        if (!decision.allowed) {
+          continue;
+        }
+        logger.info('リアクションによるジョブキャンセル', { sessionKey: job.sessionKey, reaction, userId });
+        job.controller.abort();
+      }
+    }
+  }
+
+  /**
+   * キャンセル用リアクションを受け付けるメッセージのタイムスタンプを取得
+   * 「処理中...」メッセージを投稿しない設定の場合は、状態を表示している依頼メッセージで受け付ける
+   * @param job ジョブ
+   * @returns メッセージのタイムスタンプ。受け付けるメッセージがない場合はundefined
+   */
+  private getCancelTargetTs(job: ActiveJob): string | undefined {
+    return job.placeholderTs ?? (job.statusReactions ? job.messageTs : undefined);
+  }
+
+  /**
+   * 実行中ジョブの「処理中...」メッセージのリアクションを確認（ポーリング時）
+   */
+  private async pollCancelReactions(): Promise<void> {
+    for (const job of this.activeJobs) {
+      const targetTs = this.getCancelTargetTs(job);
+      if (!targetTs || job.controller.signal.aborted) {
+        continue;
+      }
+      try {
+        const reactions = await this.slackClient.getReactions(job.channelId, targetTs);
+        for (const reaction of reactions) {
+          for (const userId of reaction.users) {
+            await this.handleReaction(job.channelId, targetTs, reaction.name, userId);
           }
         }
+      } catch (err) {
+        logger.error('リアクション取得エラー', err as Error, { sessionKey: job.sessionKey });
       }
     }
+  }
 
-    // Claude Code CLI実行（セッション継続）
-    const result = await executeClaudeCodeWithSession({
-      prompt: cleanPrompt,
-      cwd: session.projectPath,
-      images: imagePaths.length > 0 ? imagePaths : undefined,
-      resumeSessionId: session.sessionId,
-      systemPrompt: this.config.claude?.systemPrompt,
-    });
+  /**
+   * チャンネルのジョブの状態の表示方法を取得
+   * @param channelId チャンネルID
+   * @returns 表示方法（未設定の場合はmessage）
+   */
+  private getStatusIndicator(channelId: string): StatusIndicatorMode {
+    return this.config.channels?.[channelId]?.statusIndicator ?? 'message';
+  }
+
+  /**
+   * Claude Code実行ジョブをキューに追加
+   * 実行完了を待たずに戻るため、ポーリングやイベント受信をブロックしない
+   * @param message Slackメッセージ
+   * @param channelId チャンネルID
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param prompt プロンプト
+   * @returns 投入したジョブと、完了時（失敗時を含む）に解決されるPromise。セッションがない場合はundefined
+   */
+  private enqueueClaudeJob(
+    message: SlackMessage,
+    channelId: string,
+    threadTs: string,
+    prompt: string
+  ): { job: ActiveJob; done: Promise<void> } | undefined {
+    const sessionKey = this.getSessionKey(channelId, threadTs);
+    const session = this.store.getThreadSession(sessionKey);
+    if (!session) {
+      logger.warn('スレッドセッションが見つかりません', { sessionKey });
+      return undefined;
+    }
+
+    const statusIndicator = this.getStatusIndicator(channelId);
+    const job: ActiveJob = {
+      sessionKey,
+      channelId,
+      threadTs,
+      messageTs: message.ts,
+      userId: message.user,
+      projectName: session.projectName,
+      runOptions: session.runOptions,
+      controller: new AbortController(),
+      started: false,
+      statusReactions:
+        statusIndicator === 'message' ? undefined : new StatusReactions(this.slackClient, channelId, message.ts),
+    };
+    this.activeJobs.add(job);
+
+    // worktree使用時は作業ディレクトリがスレッドごとに異なるため、スレッド単位で直列化される
+    const queueKey = this.config.claude?.queueScope === 'thread' ? sessionKey : getWorkingDirectory(session);
+    const { position, done } = this.jobQueue.enqueue(
+      {
+        key: queueKey,
+        channelId,
+        threadTs,
+        projectName: session.projectName,
+        userId: message.user,
+      },
+      () => this.runClaudeJob(job, message, prompt)
+    );
+
+    // 待ち順をスレッドに通知
+    if (position > 0) {
+      job.statusReactions?.update('queued');
+    }
+    if (position > 0 && statusIndicator !== 'reactions') {
+      this.slackClient
+        .postMessage(channelId, `順番待ち中です（${position}番目）。前のジョブが完了次第実行します。`, threadTs)
+        .catch((err) => logger.error('順番待ちメッセージ投稿エラー', err as Error, { channelId, threadTs }));
+    }
+
+    const finished = done
+      .catch((err) => {
+        logger.error('ジョブ実行エラー', err as Error, { channelId, threadTs });
+        return job.statusReactions?.update('failed');
+      })
+      .finally(() => {
+        this.activeJobs.delete(job);
+      });
+    return { job, done: finished };
+  }
+
+  /**
+   * Claude Code CLIを実行し、結果をスレッドに投稿
+   * @param job ジョブ
+   * @param message Slackメッセージ
+   * @param prompt プロンプト
+   */
+  private async runClaudeJob(job: ActiveJob, message: SlackMessage, prompt: string): Promise<void> {
+    // 待機中にキャンセルされた場合は実行しない
+    if (job.controller.signal.aborted) {
+      await job.statusReactions?.clear();
+      return;
+    }
+    job.started = true;
+
+    // 待機中に前のジョブが更新したセッションIDを使うため、実行直前に取得する
+    const { sessionKey, channelId, threadTs } = job;
+    const session = this.store.getThreadSession(sessionKey);
+    if (!session) {
+      logger.warn('スレッドセッションが見つかりません', { sessionKey });
+      await job.statusReactions?.clear();
+      return;
+    }
+    await job.statusReactions?.update('running');
+
+    // 処理中メッセージを投稿（実行中は進捗で更新し、完了時に回答で置き換える）
+    // リアクションのみで状態を表示する設定の場合は投稿せず、回答を新しい投稿で返す
+    const placeholderTs =
+      this.getStatusIndicator(channelId) === 'reactions'
+        ? undefined
+        : await this.slackClient.postMessage(channelId, '処理中...', threadTs);
+    job.placeholderTs = placeholderTs;
+    const progress = placeholderTs
+      ? new ProgressReporter(this.slackClient, {
+          channelId,
+          threadTs,
+          messageTs: placeholderTs,
+          projectPath: getWorkingDirectory(session),
+          intervalMs: this.config.slack.progressUpdateInterval,
+        })
+      : undefined;
+
+    let downloaded: AttachmentDownloadResult | undefined;
+    try {
+      progress?.start();
+
+      // 添付ファイルをジョブ用のディレクトリにダウンロード
+      downloaded = await downloadAttachments(
+        this.slackClient,
+        message.files ?? [],
+        this.config.attachments,
+        job.controller.signal
+      );
+      if (downloaded.skipped.length > 0) {
+        await this.slackClient.postMessage(channelId, formatSkippedAttachments(downloaded.skipped), threadTs);
+      }
+
+      await this.executeAndReply(job, prompt, session, downloaded, progress);
+    } finally {
+      progress?.stop();
+      if (downloaded?.dir) {
+        removeAttachmentDir(downloaded.dir);
+      }
+    }
+  }
+
+  /**
+   * Claude Code CLIを実行して回答を投稿し、セッションを更新
+   * @param job ジョブ
+   * @param prompt プロンプト
+   * @param session スレッドセッション
+   * @param downloaded ダウンロードした添付ファイル
+   * @param progress 進捗表示（「処理中...」メッセージを投稿しなかった場合はundefined）
+   */
+  private async executeAndReply(
+    job: ActiveJob,
+    prompt: string,
+    session: ThreadSession,
+    downloaded: AttachmentDownloadResult,
+    progress?: ProgressReporter
+  ): Promise<void> {
+    const { sessionKey, channelId, threadTs } = job;
+    const cwd = getWorkingDirectory(session);
+
+    // テンプレートの呼び出しは、実行時点のブランチ名などで展開する
+    const invocation = parseTemplateInvocation(prompt, this.config.templates);
+    if (invocation) {
+      const context = await this.getTemplateContext(job, session, invocation.args, cwd);
+      prompt = expandTemplate(invocation.template, context);
+      logger.info('テンプレート展開', { sessionKey, template: invocation.template.name, promptLength: prompt.length });
+    }
+
+    // 画像はCLIに直接渡し、それ以外の添付ファイルはプロンプトで場所を伝える
+    const imagePaths = downloaded.attachments.filter((a) => a.kind === 'image').map((a) => a.path);
+    const attachmentPrompt = formatAttachmentPrompt(downloaded.attachments.filter((a) => a.kind !== 'image'));
+    if (attachmentPrompt) {
+      prompt = `${prompt}\n\n${attachmentPrompt}`;
+    }
+
+    // 依頼後に設定が変わり上限を超えた場合は実行しない
+    let runOptions: ResolvedRunOptions;
+    try {
+      runOptions = resolveRunOptions(this.config.projects[session.projectName]?.run, job.runOptions);
+    } catch (err) {
+      if (!(err instanceof RunOptionError)) {
+        throw err;
+      }
+      const message = `エラー: ${err.message}`;
+      if (progress) {
+        await progress.finish(message);
+      } else {
+        await this.slackClient.postMessage(channelId, message, threadTs);
+      }
+      await job.statusReactions?.update('failed');
+      return;
+    }
+
+    // 実行前の作業ツリーを記録（Bash経由の変更も含めて差分を取るため）
+    const snapshot = this.config.claude?.postDiff === false ? undefined : await takeSnapshot(cwd);
+
+    // 承認が有効な場合は、許可リスト外のツール実行をスレッドで問い合わせる
+    const permissions = resolveToolPermissions(this.config, session.projectName, channelId);
+    let approval: ApprovalRegistration | undefined;
+    if (permissions.approval && this.approvalServer) {
+      approval = this.approvalServer.register((request) =>
+        this.approvalManager.requestApproval(
+          { channelId, threadTs, userId: job.userId, projectName: session.projectName },
+          request,
+          job.controller.signal
+        )
+      );
+    }
+
+    // Claude Code CLI実行（セッションがあれば継続）
+    let result: ClaudeExecuteResult;
+    try {
+      result = await executeClaudeCodeWithSession({
+        ...permissions,
+        prompt,
+        cwd,
+        images: imagePaths.length > 0 ? imagePaths : undefined,
+        additionalDirectories: downloaded.dir ? [downloaded.dir] : undefined,
+        resumeSessionId: session.sessionId,
+        systemPrompt: resolveSystemPrompt(this.config, session.projectName, channelId),
+        ...runOptions,
+        onProgress: (p) => progress?.report(p),
+        signal: job.controller.signal,
+        approvalServerUrl: approval?.url,
+      });
+    } finally {
+      approval?.dispose();
+    }
+    job.result = result;
 
     // 結果を投稿
     let responseText = result.output || '（出力なし）';
-    if (!result.success && result.error) {
+    if (result.cancelled) {
+      responseText = 'キャンセルしました。';
+    } else if (!result.success && result.error) {
       responseText = `エラー:\n${result.error}\n\n出力:\n${result.output}`;
     }
 
-    // ファイル操作一覧を追加
-    if (result.modifiedFiles && result.modifiedFiles.length > 0) {
-      responseText += formatFileOperations(result.modifiedFiles, session.projectPath);
+    // 実行前後の差分を取得
+    let diff: WorkingTreeDiff | undefined;
+    if (snapshot) {
+      try {
+        diff = await diffSinceSnapshot(snapshot);
+      } catch (err) {
+        logger.error('差分取得エラー', err as Error, { cwd });
+      }
     }
 
-    // Slackの文字数制限を考慮（4000文字）
-    if (responseText.length > 3900) {
-      responseText = responseText.substring(0, 3900) + '\n...(省略)';
+    // 変更されたファイルはコンテキストブロックとして本文の下に表示
+    // gitの差分が取れない場合はツール実行結果のファイル操作一覧を使う
+    const context = diff ? formatDiffSummary(diff) : formatFileOperations(result.modifiedFiles ?? [], cwd);
+
+    // 依頼時に指定された実行オプションを回答の下に表示
+    const runOptionsSummary = formatRunOptions(job.runOptions ?? {});
+    if (runOptionsSummary) {
+      context.push(`:gear: ${runOptionsSummary}`);
     }
 
-    await this.slackClient.postMessage(channelId, responseText, threadTs);
+    // 費用・トークン数を記録し、回答の下に表示
+    if (result.usage) {
+      context.push(formatUsageFooter(result.usage));
+      this.store.recordUsage({
+        timestamp: Date.now(),
+        userId: job.userId,
+        projectName: session.projectName,
+        channelId,
+        costUsd: result.usage.costUsd,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        cacheReadTokens: result.usage.cacheReadTokens,
+        cacheCreationTokens: result.usage.cacheCreationTokens,
+      });
+    }
 
-    // セッションIDを更新
+    // キャンセル時もセッションは保持されるため、続きから再開できることを案内
+    if (result.cancelled) {
+      responseText += '\n\nスレッドに返信すると、このセッションの続きから再開できます。';
+    }
+
+    // 長文は分割またはファイル添付で投稿
+    if (progress) {
+      await progress.finish(responseText, { context });
+    } else {
+      await this.slackClient.postResponse(channelId, responseText, threadTs, { context });
+    }
+
+    // 依頼メッセージのリアクションを最終状態に更新（キャンセル時は外す）
+    const status = getResultStatus(result);
+    await (status ? job.statusReactions?.update(status) : job.statusReactions?.clear());
+
+    // パッチ全文を添付
+    if (diff?.patch) {
+      try {
+        await this.slackClient.uploadTextFile(channelId, diff.patch, 'changes.diff', threadTs, '変更差分');
+      } catch (err) {
+        logger.error('パッチ添付エラー', err as Error, { channelId, threadTs });
+      }
+    }
+
+    // セッションIDと最終更新日時を更新
+    // 実行中にスレッドの返信で実行オプションが変更されている場合があるため、保存済みのセッションを読み直して更新する
+    const latest = this.store.getThreadSession(sessionKey);
+    if (!latest) {
+      logger.warn('実行中にスレッドセッションが削除されたため更新しません', { sessionKey });
+      return;
+    }
     if (result.sessionId) {
-      session.sessionId = result.sessionId;
-      const sessionKey = this.getSessionKey(channelId, threadTs);
-      threadSessions.set(sessionKey, session);
+      latest.sessionId = result.sessionId;
     }
+    latest.updatedAt = Date.now();
+    this.store.setThreadSession(sessionKey, latest);
   }
 }
 
@@ -403,8 +1879,18 @@ class SlackClaudeBot {
  */
 async function main(): Promise<void> {
   try {
-    const config = loadConfig();
-    const bot = new SlackClaudeBot(config);
+    const configPath = resolveConfigPath();
+    const config = loadConfig(configPath);
+    const bot = new SlackClaudeBot(config, configPath);
+
+    // 終了シグナルでセッション情報を保存してから終了
+    const shutdown = async (): Promise<void> => {
+      await bot.stop();
+      process.exit(0);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
     await bot.start();
   } catch (err) {
     logger.error('起動エラー', err as Error);
@@ -412,4 +1898,7 @@ async function main(): Promise<void> {
   }
 }
 
-main();
+// テストからBotを直接起動できるよう、スクリプトとして実行された場合のみ起動する
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,171 @@
+/**
+ * アクセス制御
+ * プロジェクト・チャンネルごとの許可ユーザー／ユーザーグループと管理者設定に基づき、実行可否を判定する
+ */
+
+import { AccessRuleConfig, AppConfig } from '../types';
+import { logger } from '../utils/logger';
+import { SlackClient } from './slack-client';
+
+/** ユーザーグループのメンバーキャッシュの有効期間（ミリ秒） */
+const USER_GROUP_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * 判定結果
+ */
+export interface AccessDecision {
+  /** 許可されたか */
+  allowed: boolean;
+  /** 拒否理由（Slackに表示する文言） */
+  reason?: string;
+}
+
+/**
+ * アクセス制御
+ */
+export class AccessController {
+  private config: AppConfig;
+  private slackClient: SlackClient;
+  private userGroupCache = new Map<string, { members: Set<string>; fetchedAt: number }>();
+
+  /**
+   * コンストラクタ
+   * @param config アプリケーション設定
+   * @param slackClient Slackクライアント（ユーザーグループのメンバー取得用）
+   */
+  constructor(config: AppConfig, slackClient: SlackClient) {
+    this.config = config;
+    this.slackClient = slackClient;
+  }
+
+  /**
+   * 設定を更新（設定の再読み込み時）
+   * @param config アプリケーション設定
+   */
+  updateConfig(config: AppConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * 管理者か判定
+   * @param userId ユーザーID
+   * @returns 管理者の場合true
+   */
+  isAdmin(userId: string | undefined): boolean {
+    return !!userId && (this.config.access?.admins ?? []).includes(userId);
+  }
+
+  /**
+   * プロジェクトの実行可否を判定
+   * 管理者は常に許可。それ以外はプロジェクトとチャンネルの両方のルールを満たす必要がある
+   * @param userId ユーザーID
+   * @param projectName プロジェクト名
+   * @param channelId チャンネルID
+   * @returns 判定結果
+   */
+  async authorize(userId: string | undefined, projectName: string, channelId: string): Promise<AccessDecision> {
+    if (!userId) {
+      return { allowed: false, reason: 'ユーザーを特定できないため実行できません' };
+    }
+    if (this.isAdmin(userId)) {
+      return { allowed: true };
+    }
+
+    const project = this.config.projects[projectName];
+    if (project && !(await this.matchesRule(userId, project))) {
+      logger.warn('アクセス拒否（プロジェクト）', { userId, projectName, channelId });
+      return {
+        allowed: false,
+        reason: `<@${userId}> さんにはプロジェクト "${projectName}" を実行する権限がありません`,
+      };
+    }
+
+    const channel = this.config.channels?.[channelId];
+    if (channel && !(await this.matchesRule(userId, channel))) {
+      logger.warn('アクセス拒否（チャンネル）', { userId, projectName, channelId });
+      return {
+        allowed: false,
+        reason: `<@${userId}> さんにはこのチャンネルでClaudeを実行する権限がありません`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * チャンネルでユーザーが実行できるプロジェクトを取得
+   * 管理者はすべてのプロジェクトを実行できる
+   * @param userId ユーザーID
+   * @param channelId チャンネルID
+   * @returns 実行できるプロジェクト名一覧（チャンネルのルールを満たさない場合は空）
+   */
+  async getAllowedProjects(userId: string | undefined, channelId: string): Promise<string[]> {
+    const names = Object.keys(this.config.projects);
+    if (!userId) {
+      return [];
+    }
+    if (this.isAdmin(userId)) {
+      return names;
+    }
+
+    const channel = this.config.channels?.[channelId];
+    if (channel && !(await this.matchesRule(userId, channel))) {
+      return [];
+    }
+    const allowed: string[] = [];
+    for (const name of names) {
+      if (await this.matchesRule(userId, this.config.projects[name])) {
+        allowed.push(name);
+      }
+    }
+    return allowed;
+  }
+
+  /**
+   * ユーザーがルールを満たすか判定
+   * @param userId ユーザーID
+   * @param rule アクセス制御ルール
+   * @returns 許可ユーザー・グループが未指定、またはいずれかに含まれる場合true
+   */
+  private async matchesRule(userId: string, rule: AccessRuleConfig): Promise<boolean> {
+    const users = rule.allowedUsers ?? [];
+    const groups = rule.allowedUserGroups ?? [];
+
+    if (users.length === 0 && groups.length === 0) {
+      return true;
+    }
+    if (users.includes(userId)) {
+      return true;
+    }
+
+    for (const groupId of groups) {
+      const members = await this.getUserGroupMembers(groupId);
+      if (members.has(userId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * ユーザーグループのメンバーを取得（キャッシュ付き）
+   * 取得に失敗した場合は前回の取得結果を使い、それもなければ空として扱う（拒否側に倒す）
+   * @param groupId ユーザーグループID
+   * @returns メンバーのユーザーID
+   */
+  private async getUserGroupMembers(groupId: string): Promise<Set<string>> {
+    const cached = this.userGroupCache.get(groupId);
+    if (cached && Date.now() - cached.fetchedAt < USER_GROUP_CACHE_TTL_MS) {
+      return cached.members;
+    }
+
+    try {
+      const members = new Set(await this.slackClient.getUserGroupMembers(groupId));
+      this.userGroupCache.set(groupId, { members, fetchedAt: Date.now() });
+      return members;
+    } catch (err) {
+      logger.error('ユーザーグループ取得エラー', err as Error, { groupId });
+      return cached?.members ?? new Set();
+    }
+  }
+}
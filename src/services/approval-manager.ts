@@ -0,0 +1,300 @@
+/**
+ * ツール実行の承認管理
+ * 承認を求めるメッセージをスレッドに投稿し、依頼したユーザーのボタン操作またはリアクションを待つ
+ */
+
+import * as crypto from 'crypto';
+import { KnownBlock } from '@slack/web-api';
+import { AppConfig } from '../types';
+import { logger } from '../utils/logger';
+import { AccessController } from './access-control';
+import { ApprovalDecision, ApprovalRequest } from './approval-server';
+import { SlackClient } from './slack-client';
+
+/** 承認待ちのデフォルトタイムアウト（ミリ秒） */
+const DEFAULT_APPROVAL_TIMEOUT_MS = 120000;
+
+/** ツール入力のプレビューの最大文字数 */
+const MAX_INPUT_PREVIEW_LENGTH = 1500;
+
+/** 承認ボタンのアクションID */
+export const APPROVE_ACTION_ID = 'approval_approve';
+
+/** 拒否ボタンのアクションID */
+export const DENY_ACTION_ID = 'approval_deny';
+
+/** 承認とみなすリアクション（✅ / ✔️） */
+const APPROVE_REACTIONS = new Set(['white_check_mark', 'heavy_check_mark']);
+
+/** 拒否とみなすリアクション（❌） */
+const DENY_REACTIONS = new Set(['x']);
+
+/**
+ * 承認を求めるジョブの情報
+ */
+export interface ApprovalContext {
+  /** チャンネルID */
+  channelId: string;
+  /** スレッドの親タイムスタンプ */
+  threadTs: string;
+  /** 依頼したユーザーID（承認できるユーザー） */
+  userId?: string;
+  /** プロジェクト名 */
+  projectName: string;
+}
+
+/**
+ * 承認待ちのリクエスト
+ */
+interface PendingApproval {
+  /** ジョブの情報 */
+  context: ApprovalContext;
+  /** 承認を求めるメッセージのタイムスタンプ */
+  messageTs: string;
+  /** 回答を確定 */
+  settle: (decision: ApprovalDecision, note: string) => void;
+}
+
+/**
+ * ツール入力の要約を取得
+ * @param request 承認リクエスト
+ * @returns 要約（コマンド・ファイルパス、それ以外は入力のJSON）
+ */
+export function describeToolInput(request: ApprovalRequest): string {
+  const { input } = request;
+  let preview: string;
+  if (typeof input.command === 'string') {
+    preview = input.command;
+  } else if (typeof input.file_path === 'string') {
+    preview = input.file_path;
+  } else {
+    preview = JSON.stringify(input, null, 2);
+  }
+
+  if (preview.length > MAX_INPUT_PREVIEW_LENGTH) {
+    preview = preview.substring(0, MAX_INPUT_PREVIEW_LENGTH) + '...(省略)';
+  }
+  // コードブロック内のフェンスは表示が崩れるため置換
+  return preview.replace(/```/g, "'''");
+}
+
+/**
+ * ツール実行の承認管理
+ */
+export class ApprovalManager {
+  private slackClient: SlackClient;
+  private accessController: AccessController;
+  private timeoutMs: number;
+  /** 承認待ちのリクエスト（キー: 承認ID） */
+  private pending = new Map<string, PendingApproval>();
+
+  /**
+   * コンストラクタ
+   * @param config アプリケーション設定
+   * @param slackClient Slackクライアント
+   * @param accessController アクセス制御（管理者判定用）
+   */
+  constructor(config: AppConfig, slackClient: SlackClient, accessController: AccessController) {
+    this.slackClient = slackClient;
+    this.accessController = accessController;
+    this.timeoutMs = config.claude?.approvalTimeout ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+  }
+
+  /**
+   * 設定を更新（設定の再読み込み時）
+   * 新しいタイムアウトは以降の承認リクエストから適用する
+   * @param config アプリケーション設定
+   */
+  updateConfig(config: AppConfig): void {
+    this.timeoutMs = config.claude?.approvalTimeout ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+  }
+
+  /**
+   * スレッドで承認を求め、回答を待つ
+   * タイムアウト・ジョブのキャンセル・メッセージ投稿の失敗はすべて拒否として扱う
+   * @param context ジョブの情報
+   * @param request 承認リクエスト
+   * @param signal ジョブのキャンセル用シグナル
+   * @returns 承認結果
+   */
+  async requestApproval(
+    context: ApprovalContext,
+    request: ApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision> {
+    if (signal?.aborted) {
+      return { allowed: false, message: 'ジョブがキャンセルされました' };
+    }
+
+    const { channelId, threadTs, userId } = context;
+    const id = crypto.randomUUID();
+    const toolLine = `ツール: \`${request.tool_name}\``;
+    const inputBlock = `\`\`\`\n${describeToolInput(request)}\n\`\`\``;
+    const mention = userId ? `<@${userId}> さん、` : '';
+    const text = `:lock: *ツール実行の承認が必要です*\n${mention}次のツールの実行を許可しますか？\n${toolLine}\n${inputBlock}`;
+
+    let messageTs: string | undefined;
+    try {
+      messageTs = await this.slackClient.postBlocks(channelId, text, this.buildBlocks(id, text), threadTs);
+    } catch (err) {
+      logger.error('承認メッセージ投稿エラー', err as Error, { channelId, threadTs });
+    }
+    if (!messageTs) {
+      return { allowed: false, message: '承認を求めるメッセージを投稿できませんでした' };
+    }
+
+    logger.info('ツール実行の承認待ち', { channelId, threadTs, toolName: request.tool_name, approvalId: id });
+
+    const { decision, note } = await new Promise<{ decision: ApprovalDecision; note: string }>((resolve) => {
+      const settle = (result: ApprovalDecision, resultNote: string): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(id);
+        resolve({ decision: result, note: resultNote });
+      };
+      const timer = setTimeout(
+        () =>
+          settle(
+            { allowed: false, message: '承認がタイムアウトしました' },
+            ':hourglass: タイムアウトのため拒否しました'
+          ),
+        this.timeoutMs
+      );
+      const onAbort = (): void =>
+        settle(
+          { allowed: false, message: 'ジョブがキャンセルされました' },
+          ':no_entry: ジョブがキャンセルされたため拒否しました'
+        );
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, { context, messageTs: messageTs!, settle });
+    });
+
+    logger.info('ツール実行の承認結果', { channelId, threadTs, approvalId: id, allowed: decision.allowed });
+
+    // ボタンを取り除き、結果を表示
+    await this.slackClient
+      .updateMessage(channelId, messageTs, `${toolLine}\n${inputBlock}\n${note}`)
+      .catch((err) => logger.error('承認メッセージ更新エラー', err as Error, { channelId, messageTs }));
+
+    return decision;
+  }
+
+  /**
+   * ボタン操作を処理
+   * @param actionId アクションID
+   * @param approvalId 承認ID（ボタンの値）
+   * @param userId 操作したユーザーID
+   */
+  handleAction(actionId: string | undefined, approvalId: string | undefined, userId: string | undefined): void {
+    if (actionId !== APPROVE_ACTION_ID && actionId !== DENY_ACTION_ID) {
+      return;
+    }
+    const pending = approvalId ? this.pending.get(approvalId) : undefined;
+    if (pending) {
+      this.answer(pending, actionId === APPROVE_ACTION_ID, userId);
+    }
+  }
+
+  /**
+   * リアクションを処理
+   * @param channelId チャンネルID
+   * @param ts リアクションが付いたメッセージのタイムスタンプ
+   * @param reaction リアクション名
+   * @param userId リアクションしたユーザーID
+   */
+  handleReaction(channelId: string, ts: string, reaction: string, userId: string | undefined): void {
+    const approve = APPROVE_REACTIONS.has(reaction);
+    if (!approve && !DENY_REACTIONS.has(reaction)) {
+      return;
+    }
+
+    for (const pending of Array.from(this.pending.values())) {
+      if (pending.context.channelId === channelId && pending.messageTs === ts) {
+        this.answer(pending, approve, userId);
+      }
+    }
+  }
+
+  /**
+   * 承認待ちメッセージのリアクションを確認（ポーリング時）
+   */
+  async pollReactions(): Promise<void> {
+    for (const pending of Array.from(this.pending.values())) {
+      const { channelId } = pending.context;
+      try {
+        const reactions = await this.slackClient.getReactions(channelId, pending.messageTs);
+        for (const reaction of reactions) {
+          for (const userId of reaction.users) {
+            this.handleReaction(channelId, pending.messageTs, reaction.name, userId);
+          }
+        }
+      } catch (err) {
+        logger.error('承認リアクション取得エラー', err as Error, { channelId, messageTs: pending.messageTs });
+      }
+    }
+  }
+
+  /**
+   * 回答を確定
+   * 依頼したユーザーと管理者のみ回答できる
+   * @param pending 承認待ちのリクエスト
+   * @param approve 承認する場合true
+   * @param userId 回答したユーザーID
+   */
+  private answer(pending: PendingApproval, approve: boolean, userId: string | undefined): void {
+    if (!userId || (userId !== pending.context.userId && !this.accessController.isAdmin(userId))) {
+      logger.debug('承認権限のないユーザーの回答を無視', { userId });
+      return;
+    }
+
+    if (approve) {
+      pending.settle({ allowed: true }, `:white_check_mark: <@${userId}> さんが承認しました`);
+    } else {
+      pending.settle(
+        { allowed: false, message: 'ユーザーが実行を拒否しました' },
+        `:x: <@${userId}> さんが拒否しました`
+      );
+    }
+  }
+
+  /**
+   * 承認を求めるメッセージのブロックを生成
+   * @param id 承認ID
+   * @param text 本文（mrkdwn形式）
+   * @returns ブロック一覧
+   */
+  private buildBlocks(id: string, text: string): KnownBlock[] {
+    return [
+      { type: 'section', text: { type: 'mrkdwn', text } },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            action_id: APPROVE_ACTION_ID,
+            text: { type: 'plain_text', text: '承認' },
+            style: 'primary',
+            value: id,
+          },
+          {
+            type: 'button',
+            action_id: DENY_ACTION_ID,
+            text: { type: 'plain_text', text: '拒否' },
+            style: 'danger',
+            value: id,
+          },
+        ],
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `:white_check_mark: / :x: のリアクションでも回答できます（${Math.round(this.timeoutMs / 1000)}秒で自動的に拒否）`,
+          },
+        ],
+      },
+    ];
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * ツール実行承認用のMCPサーバー
+ * Claude Code CLIの --permission-prompt-tool から呼び出され、許可リスト外のツール実行可否を問い合わせる
+ * ローカルホストのHTTP（Streamable HTTPトランスポートのJSON応答）で待ち受け、ジョブごとに推測できないURLを発行する
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { logger } from '../utils/logger';
+
+/** MCPサーバー名（--mcp-config のキー） */
+export const APPROVAL_SERVER_NAME = 'slack_approval';
+
+/** 承認ツール名 */
+export const APPROVAL_TOOL_NAME = 'approve';
+
+/** デフォルトのプロトコルバージョン */
+const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+/** リクエストボディの上限サイズ（バイト） */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * ツール実行の承認リクエスト（permission-prompt-tool の入力）
+ */
+export interface ApprovalRequest {
+  /** ツール名 */
+  tool_name: string;
+  /** ツールの入力 */
+  input: Record<string, unknown>;
+  /** ツール呼び出しID */
+  tool_use_id?: string;
+}
+
+/**
+ * 承認結果
+ */
+export interface ApprovalDecision {
+  /** 許可されたか */
+  allowed: boolean;
+  /** 拒否理由（Claudeに返す文言） */
+  message?: string;
+}
+
+/**
+ * 承認リクエストを処理するハンドラ
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+/**
+ * ジョブごとの登録情報
+ */
+export interface ApprovalRegistration {
+  /** CLIに渡すMCPサーバーのURL */
+  url: string;
+  /** 登録を解除 */
+  dispose(): void;
+}
+
+/**
+ * JSON-RPCリクエスト
+ */
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPCエラー
+ */
+class JsonRpcError extends Error {
+  code: number;
+
+  /**
+   * コンストラクタ
+   * @param code エラーコード
+   * @param message エラーメッセージ
+   */
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+  }
+}
+
+/**
+ * ツール実行承認用のMCPサーバー
+ */
+export class ApprovalServer {
+  private port: number;
+  private server?: http.Server;
+  private handlers = new Map<string, ApprovalHandler>();
+
+  /**
+   * コンストラクタ
+   * @param port 待ち受けポート（0の場合は空きポートを自動で選択）
+   */
+  constructor(port = 0) {
+    this.port = port;
+  }
+
+  /**
+   * 待ち受けを開始
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        logger.error('承認サーバーのリクエスト処理エラー', err as Error);
+        if (!res.headersSent) {
+          res.writeHead(500).end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.port = (server.address() as { port: number }).port;
+    logger.info('承認サーバー起動', { port: this.port });
+  }
+
+  /**
+   * 待ち受けを停止
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return;
+    }
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * ジョブ用のハンドラを登録
+   * @param handler 承認リクエストを処理するハンドラ
+   * @returns 登録情報
+   * @throws サーバーが起動していない場合
+   */
+  register(handler: ApprovalHandler): ApprovalRegistration {
+    if (!this.server) {
+      throw new Error('承認サーバーが起動していません');
+    }
+
+    const token = crypto.randomBytes(24).toString('hex');
+    this.handlers.set(token, handler);
+    return {
+      url: `http://127.0.0.1:${this.port}/mcp/${token}`,
+      dispose: () => this.handlers.delete(token),
+    };
+  }
+
+  /**
+   * HTTPリクエストを処理
+   * @param req リクエスト
+   * @param res レスポンス
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const match = (req.url ?? '').match(/^\/mcp\/([0-9a-f]+)$/);
+    const handler = match ? this.handlers.get(match[1]) : undefined;
+    if (!handler) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    // サーバーからの通知用ストリーム（GET）やセッション終了（DELETE）は使用しない
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      res.writeHead(413).end();
+      return;
+    }
+
+    let message: JsonRpcRequest | JsonRpcRequest[];
+    try {
+      message = JSON.parse(body) as JsonRpcRequest | JsonRpcRequest[];
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    const requests = Array.isArray(message) ? message : [message];
+    const responses = (await Promise.all(requests.map((request) => this.dispatch(request, handler)))).filter(
+      (response) => response !== null
+    );
+
+    // 通知のみの場合は本文なしで受理
+    if (responses.length === 0) {
+      res.writeHead(202).end();
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(Array.isArray(message) ? responses : responses[0]));
+  }
+
+  /**
+   * JSON-RPCリクエストを処理
+   * @param request リクエスト
+   * @param handler 承認リクエストを処理するハンドラ
+   * @returns レスポンス。通知の場合はnull
+   */
+  private async dispatch(request: JsonRpcRequest, handler: ApprovalHandler): Promise<object | null> {
+    if (request.id === undefined || request.id === null) {
+      return null;
+    }
+
+    try {
+      const result = await this.call(request, handler);
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (err) {
+      const code = err instanceof JsonRpcError ? err.code : -32603;
+      return { jsonrpc: '2.0', id: request.id, error: { code, message: (err as Error).message } };
+    }
+  }
+
+  /**
+   * MCPのメソッドを実行
+   * @param request リクエスト
+   * @param handler 承認リクエストを処理するハンドラ
+   * @returns 結果
+   * @throws 未対応のメソッド・ツールの場合
+   */
+  private async call(request: JsonRpcRequest, handler: ApprovalHandler): Promise<object> {
+    const params = request.params ?? {};
+
+    switch (request.method) {
+      case 'initialize':
+        return {
+          protocolVersion: (params.protocolVersion as string | undefined) ?? DEFAULT_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: APPROVAL_SERVER_NAME, version: '1.0.0' },
+        };
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: [
+            {
+              name: APPROVAL_TOOL_NAME,
+              description: 'Slackでユーザーにツール実行の承認を求める',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  tool_name: { type: 'string' },
+                  input: { type: 'object' },
+                  tool_use_id: { type: 'string' },
+                },
+                required: ['tool_name', 'input'],
+              },
+            },
+          ],
+        };
+      case 'tools/call': {
+        if (params.name !== APPROVAL_TOOL_NAME) {
+          throw new JsonRpcError(-32602, `未対応のツールです: ${String(params.name)}`);
+        }
+        const args = (params.arguments ?? {}) as Partial<ApprovalRequest>;
+        const input = args.input ?? {};
+        const decision = await handler({
+          tool_name: args.tool_name ?? '',
+          input,
+          tool_use_id: args.tool_use_id,
+        });
+
+        // permission-prompt-tool の応答形式
+        const payload = decision.allowed
+          ? { behavior: 'allow', updatedInput: input }
+          : { behavior: 'deny', message: decision.message ?? 'ユーザーが拒否しました' };
+        return { content: [{ type: 'text', text: JSON.stringify(payload) }] };
+      }
+      default:
+        throw new JsonRpcError(-32601, `未対応のメソッドです: ${request.method}`);
+    }
+  }
+}
+
+/**
+ * リクエストボディを読み込む
+ * @param req リクエスト
+ * @returns ボディ文字列。上限サイズを超えた場合はnull
+ */
+function readBody(req: http.IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let exceeded = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        exceeded = true;
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(exceeded ? null : Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,335 @@
+/**
+ * 添付ファイルの処理
+ * メッセージの添付ファイルを種別ごとのサイズ上限を確認してジョブ用のディレクトリにダウンロードし、
+ * 画像以外のファイルはプロンプトで場所を伝えてClaudeに読ませる
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AttachmentConfig, AttachmentKind, SlackFile } from '../types';
+import { logger } from '../utils/logger';
+import { FileTooLargeError, SlackClient } from './slack-client';
+
+/** 添付ファイルの保存先ディレクトリ名の接頭辞（一時ディレクトリ内） */
+const ATTACHMENT_DIR_PREFIX = 'slack-claude-';
+
+/** 起動時に削除する、前回までの実行で残った保存先ディレクトリの経過時間（ミリ秒） */
+const STALE_ATTACHMENT_DIR_AGE_MS = 6 * 60 * 60 * 1000;
+
+/** 保存するファイル名の最大長（拡張子を含む） */
+const MAX_FILE_NAME_LENGTH = 100;
+
+/** 種別ごとのデフォルトのサイズ上限（MB） */
+const DEFAULT_MAX_SIZE_MB: Record<AttachmentKind, number> = {
+  image: 10,
+  text: 5,
+  pdf: 20,
+  other: 10,
+};
+
+/** テキストとして扱うMIMEタイプ（text/* 以外） */
+const TEXT_MIMETYPES = [
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'application/javascript',
+  'application/typescript',
+  'application/x-sh',
+  'application/sql',
+  'application/csv',
+];
+
+/** テキストとして扱う拡張子（MIMEタイプが application/octet-stream などの場合） */
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'log', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'ini', 'xml', 'html', 'css',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'php', 'swift', 'sh', 'bash', 'zsh', 'sql', 'diff', 'patch', 'env', 'conf',
+]);
+
+/** 種別の日本語表記 */
+const KIND_LABELS: Record<AttachmentKind, string> = {
+  image: '画像',
+  text: 'テキスト',
+  pdf: 'PDF',
+  other: 'その他',
+};
+
+/**
+ * ダウンロードした添付ファイル
+ */
+export interface Attachment {
+  /** 種別 */
+  kind: AttachmentKind;
+  /** 元のファイル名 */
+  name: string;
+  /** MIMEタイプ */
+  mimetype?: string;
+  /** ファイルサイズ（バイト） */
+  size: number;
+  /** 保存先のファイルパス */
+  path: string;
+}
+
+/**
+ * ダウンロードしなかった添付ファイル
+ */
+export interface SkippedAttachment {
+  /** ファイル名 */
+  name: string;
+  /** 理由 */
+  reason: string;
+}
+
+/**
+ * 添付ファイルのダウンロード結果
+ */
+export interface AttachmentDownloadResult {
+  /** 保存先のディレクトリ（ダウンロードしたファイルがない場合はundefined） */
+  dir?: string;
+  /** ダウンロードした添付ファイル */
+  attachments: Attachment[];
+  /** ダウンロードしなかった添付ファイル */
+  skipped: SkippedAttachment[];
+}
+
+/**
+ * 添付ファイルの種別を判定
+ * @param file Slackファイル情報
+ * @returns 種別
+ */
+export function getAttachmentKind(file: SlackFile): AttachmentKind {
+  const mimetype = file.mimetype?.toLowerCase() ?? '';
+  if (mimetype.startsWith('image/')) {
+    return 'image';
+  }
+  if (mimetype === 'application/pdf' || file.filetype === 'pdf') {
+    return 'pdf';
+  }
+  if (mimetype.startsWith('text/') || TEXT_MIMETYPES.includes(mimetype)) {
+    return 'text';
+  }
+  const extension = path.extname(file.name ?? '').slice(1).toLowerCase();
+  return TEXT_EXTENSIONS.has(extension) ? 'text' : 'other';
+}
+
+/**
+ * 種別のサイズ上限を取得
+ * @param config 添付ファイル設定
+ * @param kind 種別
+ * @returns サイズ上限（バイト）。0の場合はダウンロードしない
+ */
+export function getAttachmentLimit(config: AttachmentConfig | undefined, kind: AttachmentKind): number {
+  const megabytes = config?.maxSizeMB?.[kind] ?? DEFAULT_MAX_SIZE_MB[kind];
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * 保存用のファイル名を生成
+ * パス区切り・制御文字・ファイル名に使えない文字を置き換え、先頭のドットを除いて長さを制限する
+ * @param name 元のファイル名
+ * @param fallback ファイル名が空になった場合に使う名前
+ * @returns 保存用のファイル名
+ */
+export function sanitizeFileName(name: string, fallback: string): string {
+  let sanitized = name
+    .normalize('NFC')
+    .replace(/[\x00-\x1f\x7f/\\:*?"<>|]/g, '_')
+    .replace(/^[.\s]+/, '')
+    .trim();
+
+  if (sanitized.length > MAX_FILE_NAME_LENGTH) {
+    const extension = path.extname(sanitized).slice(0, 16);
+    sanitized = sanitized.slice(0, MAX_FILE_NAME_LENGTH - extension.length) + extension;
+  }
+  return sanitized || fallback;
+}
+
+/**
+ * ディレクトリ内で重複しないファイル名を選ぶ
+ * @param name ファイル名
+ * @param used 使用済みのファイル名
+ * @returns 重複しないファイル名（重複時は "name-2.ext" の形式）
+ */
+function chooseUniqueName(name: string, used: Set<string>): string {
+  const extension = path.extname(name);
+  const base = name.slice(0, name.length - extension.length);
+  let candidate = name;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base}-${i}${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * ファイルサイズをフォーマット
+ * @param bytes バイト数
+ * @returns フォーマット済み文字列（例: 512B、12.3KB、4.5MB）
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)}KB`;
+  }
+  return `${bytes}B`;
+}
+
+/**
+ * 添付ファイルをジョブ用のディレクトリにダウンロード
+ * サイズ上限を超えるファイル・無効な種別のファイル・同じ内容のファイルは保存せず、理由とともに返す
+ * 保存先のディレクトリは実行後に removeAttachmentDir で削除する
+ * @param slackClient Slackクライアント
+ * @param files 添付ファイル一覧
+ * @param config 添付ファイル設定
+ * @param signal キャンセル用シグナル（キャンセルされた場合は残りのファイルをダウンロードせずに戻る）
+ * @returns ダウンロード結果
+ */
+export async function downloadAttachments(
+  slackClient: SlackClient,
+  files: SlackFile[],
+  config: AttachmentConfig | undefined,
+  signal?: AbortSignal
+): Promise<AttachmentDownloadResult> {
+  const result: AttachmentDownloadResult = { attachments: [], skipped: [] };
+  const usedNames = new Set<string>();
+  const checksums = new Map<string, Attachment>();
+
+  for (const file of files) {
+    if (signal?.aborted) {
+      break;
+    }
+    const name = file.name || file.id;
+    const kind = getAttachmentKind(file);
+    const limit = getAttachmentLimit(config, kind);
+    const tooLarge = `サイズが上限 ${formatFileSize(limit)} を超えています`;
+
+    if (limit === 0) {
+      result.skipped.push({ name, reason: `${KIND_LABELS[kind]}ファイルの受け付けが無効です` });
+      continue;
+    }
+    if (file.size !== undefined && file.size > limit) {
+      result.skipped.push({ name, reason: `${tooLarge}（${formatFileSize(file.size)}）` });
+      continue;
+    }
+    if (!file.url_private) {
+      result.skipped.push({ name, reason: 'ダウンロードURLがありません' });
+      continue;
+    }
+
+    try {
+      result.dir ??= fs.mkdtempSync(path.join(os.tmpdir(), ATTACHMENT_DIR_PREFIX));
+      const fileName = chooseUniqueName(sanitizeFileName(name, file.id), usedNames);
+      const downloaded = await slackClient.downloadFile(file, path.join(result.dir, fileName), limit, signal);
+
+      const duplicate = checksums.get(downloaded.sha256);
+      if (duplicate) {
+        fs.rmSync(downloaded.path, { force: true });
+        usedNames.delete(fileName.toLowerCase());
+        result.skipped.push({ name, reason: `${duplicate.name} と同じ内容です` });
+        continue;
+      }
+
+      const attachment: Attachment = {
+        kind,
+        name,
+        mimetype: file.mimetype,
+        size: downloaded.size,
+        path: downloaded.path,
+      };
+      checksums.set(downloaded.sha256, attachment);
+      result.attachments.push(attachment);
+    } catch (err) {
+      if (signal?.aborted) {
+        break;
+      }
+      if (err instanceof FileTooLargeError) {
+        result.skipped.push({ name, reason: tooLarge });
+        continue;
+      }
+      logger.error('添付ファイルのダウンロードエラー', err as Error, { fileId: file.id, fileName: name });
+      result.skipped.push({ name, reason: 'ダウンロードに失敗しました' });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 添付ファイルの保存先ディレクトリを削除
+ * @param dir 保存先のディレクトリ
+ */
+export function removeAttachmentDir(dir: string): void {
+  try {
+    fs.rmSync(dir, { recursive: true, force: true });
+  } catch (err) {
+    logger.error('添付ファイルの削除エラー', err as Error, { dir });
+  }
+}
+
+/**
+ * 前回までの実行で残った添付ファイルの保存先ディレクトリを削除（起動時）
+ * 異常終了などで削除されなかったもののうち、一定時間以上経過したものを対象とする
+ * @param now 現在時刻（Unix時間ミリ秒）
+ * @returns 削除したディレクトリ数
+ */
+export function cleanupStaleAttachmentDirs(now: number = Date.now()): number {
+  const tempDir = os.tmpdir();
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(tempDir, { withFileTypes: true });
+  } catch (err) {
+    logger.error('一時ディレクトリの読み込みエラー', err as Error, { tempDir });
+    return 0;
+  }
+
+  let removed = 0;
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !entry.name.startsWith(ATTACHMENT_DIR_PREFIX)) {
+      continue;
+    }
+    const dir = path.join(tempDir, entry.name);
+    try {
+      if (now - fs.statSync(dir).mtimeMs >= STALE_ATTACHMENT_DIR_AGE_MS) {
+        fs.rmSync(dir, { recursive: true, force: true });
+        removed++;
+      }
+    } catch (err) {
+      logger.error('添付ファイルの削除エラー', err as Error, { dir });
+    }
+  }
+  return removed;
+}
+
+/**
+ * 画像以外の添付ファイルをClaudeに伝えるプロンプトを生成
+ * @param attachments ダウンロードした添付ファイル（画像以外）
+ * @returns プロンプトに追記する文字列。添付ファイルがない場合は空文字
+ */
+export function formatAttachmentPrompt(attachments: Attachment[]): string {
+  if (attachments.length === 0) {
+    return '';
+  }
+  const lines = attachments.map((attachment) => {
+    const type = attachment.mimetype ?? KIND_LABELS[attachment.kind];
+    return `- ${attachment.name}（${type}, ${formatFileSize(attachment.size)}）: ${attachment.path}`;
+  });
+  return [
+    '[添付ファイル]',
+    'ユーザーが以下のファイルを添付しました。必要に応じてReadツールで内容を確認してください。',
+    ...lines,
+  ].join('\n');
+}
+
+/**
+ * ダウンロードしなかった添付ファイルの通知を生成
+ * @param skipped ダウンロードしなかった添付ファイル
+ * @returns Slackに投稿するメッセージ
+ */
+export function formatSkippedAttachments(skipped: SkippedAttachment[]): string {
+  const lines = skipped.map((file) => `- ${file.name}: ${file.reason}`);
+  return [':warning: 以下の添付ファイルは読み込まずに実行します。', ...lines].join('\n');
+}
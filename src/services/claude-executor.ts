@@ -2,15 +2,29 @@
  * Claude Code CLI実行サービス
  */
 
-import { execSync } from 'child_process';
+import { spawn } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+import { TokenUsage, ToolPermissionConfig } from '../types';
+import { formatDuration } from '../utils/duration';
 import { logger } from '../utils/logger';
+import { APPROVAL_SERVER_NAME, APPROVAL_TOOL_NAME } from './approval-server';
 
 /** Claude CLIのパス（環境変数またはデフォルト） */
 const CLAUDE_PATH = process.env.CLAUDE_PATH || 'claude';
 
+/** 実行タイムアウトのデフォルト（ミリ秒） */
+const DEFAULT_EXECUTION_TIMEOUT_MS = 300000;
+
+/** タイムアウト時にSIGTERM送信後、SIGKILLを送るまでの猶予（ミリ秒） */
+const KILL_GRACE_MS = 5000;
+
+/** 標準出力の上限サイズ（バイト） */
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
 /**
- * 許可するツール一覧
+ * デフォルトで許可するツール一覧
  * ファイル操作・検索・Git操作・npm/テスト実行を許可
+ * プロジェクト・チャンネル設定の allowedTools で置き換え可能
  */
 const ALLOWED_TOOLS = [
   'Read',
@@ -31,20 +45,49 @@ const ALLOWED_TOOLS = [
 
 /**
  * Claude Code CLI実行オプション
+ * ツール権限（allowedTools など）はプロジェクト・チャンネル設定から解決したものを渡す
  */
-export interface ClaudeExecuteOptions {
+export interface ClaudeExecuteOptions extends ToolPermissionConfig {
   /** プロンプト */
   prompt: string;
   /** 作業ディレクトリ */
   cwd: string;
   /** 画像ファイルパス一覧 */
   images?: string[];
+  /** 作業ディレクトリ以外に読み書きを許可するディレクトリ（添付ファイルの保存先など） */
+  additionalDirectories?: string[];
   /** 継続するセッションID */
   resumeSessionId?: string;
   /** システムプロンプト（事前知識） */
   systemPrompt?: string;
+  /** モデル（未指定時はCLIのデフォルト） */
+  model?: string;
+  /** 最大ターン数（未指定時は無制限） */
+  maxTurns?: number;
+  /** 実行タイムアウト（ミリ秒、デフォルト: 300000） */
+  timeoutMs?: number;
   /** 追加で許可するツール */
   additionalAllowedTools?: string[];
+  /** 進捗通知コールバック（stream-json出力モードのみ） */
+  onProgress?: (progress: ClaudeProgress) => void;
+  /** キャンセル用シグナル（abort時にCLIプロセスを終了する） */
+  signal?: AbortSignal;
+  /** 承認用MCPサーバーのURL（指定時は許可リスト外のツール実行を --permission-prompt-tool で問い合わせる） */
+  approvalServerUrl?: string;
+}
+
+/**
+ * 実行中の進捗情報
+ */
+export interface ClaudeProgress {
+  /** 実行中のツール名 */
+  toolName?: string;
+  /** ツールの対象（ファイルパス・コマンドなど） */
+  target?: string;
+  /** これまでに呼び出したツール数 */
+  toolCount: number;
+  /** 経過時間（ミリ秒） */
+  elapsedMs: number;
 }
 
 /**
@@ -57,6 +100,18 @@ export interface FileOperation {
   filePath: string;
 }
 
+/**
+ * 実行の利用量（stream-jsonの result イベントから取得）
+ */
+export interface ClaudeUsage extends TokenUsage {
+  /** 費用（USD） */
+  costUsd: number;
+  /** ターン数 */
+  numTurns?: number;
+  /** CLIが報告した実行時間（ミリ秒） */
+  durationMs?: number;
+}
+
 /**
  * Claude Code CLI実行結果
  */
@@ -71,15 +126,32 @@ export interface ClaudeExecuteResult {
   sessionId?: string;
   /** 編集されたファイル一覧 */
   modifiedFiles?: FileOperation[];
+  /** キャンセルされたか */
+  cancelled?: boolean;
+  /** タイムアウトで終了したか */
+  timedOut?: boolean;
+  /** 利用量（result イベントを受信できた場合のみ） */
+  usage?: ClaudeUsage;
 }
 
 /**
- * シェル用にエスケープ
- * @param str エスケープ対象
- * @returns エスケープ済み文字列
+ * CLIプロセスの実行結果
  */
-function escapeShellArg(str: string): string {
-  return `'${str.replace(/'/g, "'\"'\"'")}'`;
+interface ProcessResult {
+  /** 標準出力 */
+  stdout: string;
+  /** 標準エラー出力 */
+  stderr: string;
+  /** 終了コード */
+  exitCode: number | null;
+  /** タイムアウトで終了したか */
+  timedOut: boolean;
+  /** 出力サイズ上限を超えたか */
+  outputExceeded: boolean;
+  /** キャンセルで終了したか */
+  cancelled: boolean;
+  /** 実行タイムアウト（ミリ秒） */
+  timeoutMs: number;
 }
 
 /**
@@ -95,16 +167,261 @@ function extractSessionId(output: string): string | undefined {
 
 /**
  * allowedToolsオプションを構築
+ * @param allowedTools 許可ツール（未指定時はデフォルトの許可ツール）
  * @param additionalTools 追加ツール
- * @returns CLIオプション文字列
+ * @returns ツール一覧
  */
-function buildAllowedToolsOption(additionalTools?: string[]): string {
-  const tools = [...ALLOWED_TOOLS];
+function buildAllowedToolsOption(allowedTools?: string[], additionalTools?: string[]): string[] {
+  const tools = [...(allowedTools ?? ALLOWED_TOOLS)];
   if (additionalTools) {
     tools.push(...additionalTools);
   }
-  // スペース区切りでダブルクォートで囲む
-  return tools.map(t => `"${t}"`).join(' ');
+  return tools;
+}
+
+/**
+ * 複数の値を取るオプションを `--name=value` 形式で値ごとに生成
+ * `--name a b` 形式では、後ろに続く画像ファイルなどの位置引数もオプションの値として解釈されるため
+ * @param name オプション名
+ * @param values 値一覧
+ * @returns 引数一覧
+ */
+function variadicOption(name: string, values: string[]): string[] {
+  return values.map((value) => `${name}=${value}`);
+}
+
+/**
+ * CLI引数を構築
+ * @param options 実行オプション
+ * @param outputArgs 出力形式に関する引数
+ * @returns 引数一覧
+ */
+function buildArgs(options: ClaudeExecuteOptions, outputArgs: string[]): string[] {
+  const {
+    prompt,
+    images,
+    additionalDirectories,
+    resumeSessionId,
+    systemPrompt,
+    model,
+    maxTurns,
+    allowedTools,
+    additionalAllowedTools,
+    disallowedTools,
+    permissionMode,
+    extraArgs,
+    approvalServerUrl,
+  } = options;
+  const args = ['-p', prompt, ...outputArgs];
+
+  // 許可ツールを追加
+  const tools = buildAllowedToolsOption(allowedTools, additionalAllowedTools);
+  args.push(...variadicOption('--allowedTools', tools));
+
+  // 禁止ツールを追加
+  args.push(...variadicOption('--disallowedTools', disallowedTools ?? []));
+
+  // パーミッションモードを指定
+  if (permissionMode) {
+    args.push('--permission-mode', permissionMode);
+  }
+
+  // 許可リスト外のツールは承認用MCPサーバーに問い合わせる
+  if (approvalServerUrl) {
+    const mcpConfig = { mcpServers: { [APPROVAL_SERVER_NAME]: { type: 'http', url: approvalServerUrl } } };
+    args.push(
+      '--mcp-config',
+      JSON.stringify(mcpConfig),
+      '--permission-prompt-tool',
+      `mcp__${APPROVAL_SERVER_NAME}__${APPROVAL_TOOL_NAME}`
+    );
+  }
+
+  // 作業ディレクトリ外のディレクトリへのアクセスを許可
+  args.push(...variadicOption('--add-dir', additionalDirectories ?? []));
+
+  // システムプロンプトがある場合は追加
+  if (systemPrompt) {
+    args.push('--system-prompt', systemPrompt);
+  }
+
+  // モデルと最大ターン数を指定
+  if (model) {
+    args.push('--model', model);
+  }
+  if (maxTurns !== undefined) {
+    args.push('--max-turns', String(maxTurns));
+  }
+
+  // セッション継続の場合は --resume オプションを追加
+  if (resumeSessionId) {
+    args.push('--resume', resumeSessionId);
+  }
+
+  // 設定で指定された追加引数
+  if (extraArgs && extraArgs.length > 0) {
+    args.push(...extraArgs);
+  }
+
+  // 画像ファイルがある場合は追加
+  if (images && images.length > 0) {
+    args.push(...images);
+  }
+
+  return args;
+}
+
+/**
+ * ログ出力用にコマンドを文字列化（プロンプトは伏せる）
+ * @param args 引数一覧
+ * @param prompt プロンプト
+ * @returns コマンド文字列
+ */
+function describeCommand(args: string[], prompt: string): string {
+  return [
+    CLAUDE_PATH,
+    // 承認用MCPサーバーのURLに含まれるトークンも伏せる
+    ...args.map((arg) => (arg === prompt ? '[PROMPT]' : JSON.stringify(arg).replace(/\/mcp\/[0-9a-f]+/g, '/mcp/[TOKEN]'))),
+  ].join(' ');
+}
+
+/**
+ * Claude CLIプロセスを非同期で実行
+ * イベントループをブロックしないよう spawn で起動し、出力を収集する
+ * @param args 引数一覧
+ * @param cwd 作業ディレクトリ
+ * @param timeoutMs 実行タイムアウト（ミリ秒）
+ * @param onStdoutLine 標準出力を1行受信するごとに呼ばれるコールバック
+ * @param signal キャンセル用シグナル
+ * @returns 実行結果
+ * @throws プロセスを起動できなかった場合
+ */
+function runClaudeProcess(
+  args: string[],
+  cwd: string,
+  timeoutMs: number,
+  onStdoutLine?: (line: string) => void,
+  signal?: AbortSignal
+): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      resolve({
+        stdout: '',
+        stderr: '',
+        exitCode: null,
+        timedOut: false,
+        outputExceeded: false,
+        cancelled: true,
+        timeoutMs,
+      });
+      return;
+    }
+
+    const child = spawn(CLAUDE_PATH, args, {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, FORCE_COLOR: '0' },
+    });
+
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let outputBytes = 0;
+    let timedOut = false;
+    let outputExceeded = false;
+    let cancelled = false;
+    let killTimer: NodeJS.Timeout | undefined;
+    const decoder = new StringDecoder('utf-8');
+    let pendingLine = '';
+
+    const terminate = (): void => {
+      child.kill('SIGTERM');
+      killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+    };
+
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      terminate();
+    }, timeoutMs);
+
+    const onAbort = (): void => {
+      cancelled = true;
+      terminate();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        if (!outputExceeded) {
+          outputExceeded = true;
+          terminate();
+        }
+        return;
+      }
+      stdoutChunks.push(chunk);
+
+      if (onStdoutLine) {
+        const lines = (pendingLine + decoder.write(chunk)).split('\n');
+        pendingLine = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.trim()) {
+            onStdoutLine(line);
+          }
+        }
+      }
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderrChunks.push(chunk);
+    });
+
+    const cleanup = (): void => {
+      clearTimeout(timeoutTimer);
+      if (killTimer) {
+        clearTimeout(killTimer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (err) => {
+      cleanup();
+      reject(err);
+    });
+
+    child.on('close', (exitCode) => {
+      cleanup();
+      resolve({
+        stdout: Buffer.concat(stdoutChunks).toString('utf-8'),
+        stderr: Buffer.concat(stderrChunks).toString('utf-8'),
+        exitCode,
+        timedOut,
+        outputExceeded,
+        cancelled,
+        timeoutMs,
+      });
+    });
+  });
+}
+
+/**
+ * 異常終了時のエラーメッセージを生成
+ * @param result プロセス実行結果
+ * @returns エラーメッセージ。正常終了の場合はundefined
+ */
+function getProcessError(result: ProcessResult): string | undefined {
+  if (result.cancelled) {
+    return 'キャンセルされました';
+  }
+  if (result.timedOut) {
+    return `タイムアウトしました（${formatDuration(result.timeoutMs)}）`;
+  }
+  if (result.outputExceeded) {
+    return `出力サイズが上限（${MAX_OUTPUT_BYTES / 1024 / 1024}MB）を超えました`;
+  }
+  if (result.exitCode !== 0) {
+    return result.stderr || `Claude Code CLIが終了コード ${result.exitCode} で終了しました`;
+  }
+  return undefined;
 }
 
 /**
@@ -113,7 +430,7 @@ function buildAllowedToolsOption(additionalTools?: string[]): string {
  * @returns 実行結果
  */
 export async function executeClaudeCode(options: ClaudeExecuteOptions): Promise<ClaudeExecuteResult> {
-  const { prompt, cwd, images, resumeSessionId, systemPrompt, additionalAllowedTools } = options;
+  const { prompt, cwd, images, resumeSessionId } = options;
 
   logger.info('Claude Code CLI実行開始', {
     cwd,
@@ -126,43 +443,37 @@ export async function executeClaudeCode(options: ClaudeExecuteOptions): Promise<
 
   try {
     // コマンドを構築
-    let command = `${CLAUDE_PATH} -p ${escapeShellArg(prompt)}`;
-
-    // 許可ツールを追加
-    command += ` --allowedTools ${buildAllowedToolsOption(additionalAllowedTools)}`;
-
-    // システムプロンプトがある場合は追加
-    if (systemPrompt) {
-      command += ` --system-prompt ${escapeShellArg(systemPrompt)}`;
-    }
-
-    // セッション継続の場合は --resume オプションを追加
-    if (resumeSessionId) {
-      command += ` --resume ${escapeShellArg(resumeSessionId)}`;
-    }
-
-    // 画像ファイルがある場合は追加
-    if (images && images.length > 0) {
-      for (const imagePath of images) {
-        command += ` ${escapeShellArg(imagePath)}`;
-      }
-    }
+    const args = buildArgs(options, []);
 
     logger.info('Claude Code実行コマンド', {
-      command: command.replace(prompt, '[PROMPT]'),
+      command: describeCommand(args, prompt),
       cwd,
     });
 
-    // 同期実行（タイムアウト5分）
-    const output = execSync(command, {
+    const processResult = await runClaudeProcess(
+      args,
       cwd,
-      encoding: 'utf-8',
-      timeout: 300000,
-      maxBuffer: 10 * 1024 * 1024,
-      env: { ...process.env, FORCE_COLOR: '0' },
-    });
+      options.timeoutMs ?? DEFAULT_EXECUTION_TIMEOUT_MS,
+      undefined,
+      options.signal
+    );
+    const output = processResult.stdout;
 
     const duration = Date.now() - startTime;
+    const processError = getProcessError(processResult);
+
+    if (processError) {
+      logger.error('Claude Code CLI実行エラー', new Error(processError), {
+        duration,
+        exitCode: processResult.exitCode,
+      });
+
+      return {
+        success: false,
+        output,
+        error: processError,
+      };
+    }
 
     logger.info('Claude Code CLI実行完了', {
       duration,
@@ -176,7 +487,7 @@ export async function executeClaudeCode(options: ClaudeExecuteOptions): Promise<
     };
   } catch (err) {
     const duration = Date.now() - startTime;
-    const error = err as Error & { stdout?: string; stderr?: string };
+    const error = err as Error;
 
     logger.error('Claude Code CLI実行エラー', error, {
       duration,
@@ -184,12 +495,81 @@ export async function executeClaudeCode(options: ClaudeExecuteOptions): Promise<
 
     return {
       success: false,
-      output: error.stdout || '',
-      error: error.stderr || error.message,
+      output: '',
+      error: error.message,
     };
   }
 }
 
+/**
+ * ツール入力から進捗表示用の対象を取り出す
+ * @param input ツール入力
+ * @returns 対象（ファイルパス・コマンドなど）
+ */
+function getToolTarget(input: Record<string, unknown> | undefined): string | undefined {
+  if (!input) {
+    return undefined;
+  }
+  for (const key of ['file_path', 'notebook_path', 'path', 'command', 'pattern', 'url', 'description']) {
+    const value = input[key];
+    if (typeof value === 'string' && value) {
+      return value.length > 100 ? `${value.substring(0, 100)}…` : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * stream-jsonの1行からツール呼び出しを抽出
+ * @param line stream-json形式の1行
+ * @returns ツール呼び出し一覧
+ */
+function extractToolUses(line: string): Array<{ name: string; target?: string }> {
+  try {
+    const json = JSON.parse(line);
+    if (json.type !== 'assistant' || !Array.isArray(json.message?.content)) {
+      return [];
+    }
+    return json.message.content
+      .filter((block: { type?: string }) => block.type === 'tool_use')
+      .map((block: { name?: string; input?: Record<string, unknown> }) => ({
+        name: block.name || 'unknown',
+        target: getToolTarget(block.input),
+      }));
+  } catch {
+    // JSONパース失敗は無視
+    return [];
+  }
+}
+
+/**
+ * 数値を取り出す
+ * @param value 対象の値
+ * @returns 数値。数値でない場合は0
+ */
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * result イベントから利用量を抽出
+ * @param json result イベント
+ * @returns 利用量
+ */
+function extractUsage(json: Record<string, unknown>): ClaudeUsage {
+  const usage = (json.usage ?? {}) as Record<string, unknown>;
+  return {
+    // 古いCLIは cost_usd で出力する
+    costUsd: toNumber(json.total_cost_usd ?? json.cost_usd),
+    inputTokens: toNumber(usage.input_tokens),
+    outputTokens: toNumber(usage.output_tokens),
+    cacheReadTokens: toNumber(usage.cache_read_input_tokens),
+    cacheCreationTokens: toNumber(usage.cache_creation_input_tokens),
+    numTurns: typeof json.num_turns === 'number' ? json.num_turns : undefined,
+    durationMs: typeof json.duration_ms === 'number' ? json.duration_ms : undefined,
+  };
+}
+
 /**
  * stream-json出力からファイル操作とメッセージを抽出
  * @param rawOutput stream-json形式の出力
@@ -199,11 +579,15 @@ function parseStreamJsonOutput(rawOutput: string): {
   result: string;
   sessionId?: string;
   modifiedFiles: FileOperation[];
+  usage?: ClaudeUsage;
+  resultSubtype?: string;
 } {
   const lines = rawOutput.split('\n').filter(line => line.trim());
   const modifiedFiles: FileOperation[] = [];
   let result = '';
   let sessionId: string | undefined;
+  let usage: ClaudeUsage | undefined;
+  let resultSubtype: string | undefined;
 
   for (const line of lines) {
     try {
@@ -217,17 +601,24 @@ function parseStreamJsonOutput(rawOutput: string): {
         });
       }
 
+      // 途中で終了した場合も再開できるよう、最初に出力されたセッションIDを保持
+      if (!sessionId && json.session_id) {
+        sessionId = json.session_id;
+      }
+
       // 最終結果を取得
       if (json.type === 'result') {
         result = json.result || '';
         sessionId = json.session_id;
+        usage = extractUsage(json);
+        resultSubtype = json.subtype;
       }
     } catch {
       // JSONパース失敗は無視
     }
   }
 
-  return { result, sessionId, modifiedFiles };
+  return { result, sessionId, modifiedFiles, usage, resultSubtype };
 }
 
 /**
@@ -237,7 +628,7 @@ function parseStreamJsonOutput(rawOutput: string): {
  * @returns 実行結果
  */
 export async function executeClaudeCodeWithSession(options: ClaudeExecuteOptions): Promise<ClaudeExecuteResult> {
-  const { prompt, cwd, images, resumeSessionId, systemPrompt, additionalAllowedTools } = options;
+  const { prompt, cwd, images, resumeSessionId } = options;
 
   logger.info('Claude Code CLI実行開始（セッションモード）', {
     cwd,
@@ -250,52 +641,71 @@ export async function executeClaudeCodeWithSession(options: ClaudeExecuteOptions
 
   try {
     // コマンドを構築（stream-json出力モード）
-    let command = `${CLAUDE_PATH} -p ${escapeShellArg(prompt)} --output-format stream-json --verbose`;
-
-    // 許可ツールを追加
-    command += ` --allowedTools ${buildAllowedToolsOption(additionalAllowedTools)}`;
-
-    // システムプロンプトがある場合は追加
-    if (systemPrompt) {
-      command += ` --system-prompt ${escapeShellArg(systemPrompt)}`;
-    }
-
-    // セッション継続の場合は --resume オプションを追加
-    if (resumeSessionId) {
-      command += ` --resume ${escapeShellArg(resumeSessionId)}`;
-    }
-
-    // 画像ファイルがある場合は追加
-    if (images && images.length > 0) {
-      for (const imagePath of images) {
-        command += ` ${escapeShellArg(imagePath)}`;
-      }
-    }
+    const args = buildArgs(options, ['--output-format', 'stream-json', '--verbose']);
 
     logger.info('Claude Code実行コマンド', {
-      command: command.replace(prompt, '[PROMPT]'),
+      command: describeCommand(args, prompt),
       cwd,
     });
 
-    // 同期実行（タイムアウト5分）
-    const rawOutput = execSync(command, {
+    let toolCount = 0;
+    const onStdoutLine = options.onProgress
+      ? (line: string): void => {
+          for (const toolUse of extractToolUses(line)) {
+            toolCount++;
+            options.onProgress?.({
+              toolName: toolUse.name,
+              target: toolUse.target,
+              toolCount,
+              elapsedMs: Date.now() - startTime,
+            });
+          }
+        }
+      : undefined;
+
+    const processResult = await runClaudeProcess(
+      args,
       cwd,
-      encoding: 'utf-8',
-      timeout: 300000,
-      maxBuffer: 10 * 1024 * 1024,
-      env: { ...process.env, FORCE_COLOR: '0' },
-    });
+      options.timeoutMs ?? DEFAULT_EXECUTION_TIMEOUT_MS,
+      onStdoutLine,
+      options.signal
+    );
 
     const duration = Date.now() - startTime;
 
-    // stream-json出力をパース
-    const { result, sessionId, modifiedFiles } = parseStreamJsonOutput(rawOutput);
+    // stream-json出力をパース（エラー時も途中までの出力をパースする）
+    const { result, sessionId, modifiedFiles, usage, resultSubtype } = parseStreamJsonOutput(processResult.stdout);
+    // 最大ターン数に達した場合は result イベントの subtype で判別する
+    const processError =
+      resultSubtype === 'error_max_turns' && !processResult.cancelled && !processResult.timedOut
+        ? `最大ターン数（${options.maxTurns}）に達したため中断しました`
+        : getProcessError(processResult);
+
+    if (processError) {
+      logger.error('Claude Code CLI実行エラー', new Error(processError), {
+        duration,
+        exitCode: processResult.exitCode,
+      });
+
+      return {
+        success: false,
+        output: result,
+        error: processError,
+        sessionId,
+        modifiedFiles: modifiedFiles.length > 0 ? modifiedFiles : undefined,
+        cancelled: processResult.cancelled,
+        timedOut: processResult.timedOut,
+        usage,
+      };
+    }
 
     logger.info('Claude Code CLI実行完了', {
       duration,
       outputLength: result.length,
       sessionId,
       modifiedFilesCount: modifiedFiles.length,
+      costUsd: usage?.costUsd,
+      numTurns: usage?.numTurns,
     });
 
     return {
@@ -303,29 +713,20 @@ export async function executeClaudeCodeWithSession(options: ClaudeExecuteOptions
       output: result || '（出力なし）',
       sessionId,
       modifiedFiles: modifiedFiles.length > 0 ? modifiedFiles : undefined,
+      usage,
     };
   } catch (err) {
     const duration = Date.now() - startTime;
-    const error = err as Error & { stdout?: string; stderr?: string };
+    const error = err as Error;
 
     logger.error('Claude Code CLI実行エラー', error, {
       duration,
     });
 
-    // エラー時も出力をパースしてみる
-    let modifiedFiles: FileOperation[] | undefined;
-    if (error.stdout) {
-      const parsed = parseStreamJsonOutput(error.stdout);
-      if (parsed.modifiedFiles.length > 0) {
-        modifiedFiles = parsed.modifiedFiles;
-      }
-    }
-
     return {
       success: false,
-      output: error.stdout || '',
-      error: error.stderr || error.message,
-      modifiedFiles,
+      output: '',
+      error: error.message,
     };
   }
 }
@@ -3,8 +3,10 @@
  * Slackメッセージからコマンドを抽出
  */
 
-import { ParsedCommand, SlackMessage } from '../types';
+import { MetaCommand, ParsedCommand, RunOptions, SlackMessage } from '../types';
+import { parseDuration } from '../utils/duration';
 import { logger } from '../utils/logger';
+import { isValidModelName, RunOptionError } from './run-options';
 
 /**
  * !claude コマンドのパターン
@@ -13,11 +15,96 @@ import { logger } from '../utils/logger';
  */
 const COMMAND_PATTERN = /^!claude\s+(\S+)\s+(.+)$/s;
 
+/**
+ * Bot自身のコマンド（予約サブコマンド）
+ * プロジェクト名には使用できない
+ */
+export const META_COMMANDS: readonly MetaCommand[] = [
+  'help',
+  'projects',
+  'status',
+  'sessions',
+  'usage',
+  'reset',
+  'cancel',
+  'close',
+];
+
+/**
+ * Bot自身のコマンドのパターン
+ * 例: !claude help
+ */
+const META_COMMAND_PATTERN = /^!claude\s+(\S+)$/i;
+
+/**
+ * 依頼内容の先頭の実行オプションのパターン
+ * 例: --model opus / --max-turns=20 / --timeout 15m
+ * 定義されていないオプションは依頼内容の一部として扱う
+ */
+const RUN_OPTION_PATTERN = /^--(model|max-turns|timeout)(?:=(\S*)|\s+(?!--)(\S+)|(?=\s|$))\s*/;
+
+/**
+ * 依頼内容の先頭の実行オプションをパース
+ * @param text 依頼内容
+ * @returns 実行オプションと、オプションを除いた依頼内容
+ * @throws {RunOptionError} オプションの値が不正な場合
+ */
+export function parseRunOptions(text: string): { options: RunOptions; prompt: string } {
+  const options: RunOptions = {};
+  let rest = text.trim();
+
+  for (let match = rest.match(RUN_OPTION_PATTERN); match; match = rest.match(RUN_OPTION_PATTERN)) {
+    const [matched, name, inlineValue, separateValue] = match;
+    const value = inlineValue ?? separateValue;
+    if (!value) {
+      throw new RunOptionError(`--${name} の値を指定してください`);
+    }
+
+    if (name === 'model') {
+      if (!isValidModelName(value)) {
+        throw new RunOptionError(`--model の値が不正です: ${value}`);
+      }
+      options.model = value;
+    } else if (name === 'max-turns') {
+      const maxTurns = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+      if (!(maxTurns >= 1)) {
+        throw new RunOptionError(`--max-turns は1以上の整数で指定してください: ${value}`);
+      }
+      options.maxTurns = maxTurns;
+    } else {
+      try {
+        options.timeoutMs = parseDuration(value);
+      } catch (err) {
+        throw new RunOptionError(`--timeout の値が不正です: ${(err as Error).message}`);
+      }
+    }
+
+    rest = rest.substring(matched.length);
+  }
+
+  return { options, prompt: rest };
+}
+
+/**
+ * Bot自身のコマンドをパース
+ * @param text メッセージテキスト（メンション除去済み）
+ * @returns コマンド名。Bot自身のコマンドでない場合はnull
+ */
+export function parseMetaCommand(text: string): MetaCommand | null {
+  const match = text.trim().match(META_COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const name = match[1].toLowerCase() as MetaCommand;
+  return META_COMMANDS.includes(name) ? name : null;
+}
+
 /**
  * メッセージをパース
  * @param message Slackメッセージ
  * @param defaultProject デフォルトプロジェクト名（チャンネル設定から）
  * @returns パースされたコマンド。コマンドでない場合はnull
+ * @throws {RunOptionError} 実行オプションの値が不正、またはオプションのみで依頼内容がない場合
  */
 export function parseCommand(message: SlackMessage, defaultProject?: string): ParsedCommand | null {
   const text = message.text?.trim();
@@ -30,17 +117,22 @@ export function parseCommand(message: SlackMessage, defaultProject?: string): Pa
   const match = text.match(COMMAND_PATTERN);
   if (match) {
     const projectName = match[1];
-    const prompt = match[2].trim();
+    const { options, prompt } = parseRunOptions(match[2]);
+    if (!prompt) {
+      throw new RunOptionError('依頼内容を指定してください');
+    }
 
     logger.info('コマンド解析成功', {
       projectName,
       promptLength: prompt.length,
+      options,
     });
 
     return {
       projectName,
       prompt,
       imageUrls: extractImageUrls(message),
+      options,
     };
   }
 
@@ -49,19 +141,24 @@ export function parseCommand(message: SlackMessage, defaultProject?: string): Pa
   if (defaultProject && text.startsWith('<@')) {
     const mentionEnd = text.indexOf('>');
     if (mentionEnd !== -1) {
-      const prompt = text.substring(mentionEnd + 1).trim();
+      const { options, prompt } = parseRunOptions(text.substring(mentionEnd + 1));
       if (prompt) {
         logger.info('メンション形式コマンド解析成功', {
           projectName: defaultProject,
           promptLength: prompt.length,
+          options,
         });
 
         return {
           projectName: defaultProject,
           prompt,
           imageUrls: extractImageUrls(message),
+          options,
         };
       }
+      if (Object.keys(options).length > 0) {
+        throw new RunOptionError('依頼内容を指定してください');
+      }
     }
   }
 
@@ -0,0 +1,247 @@
+/**
+ * Events API受信機
+ * HTTPエンドポイントでSlackからのイベントを受信する
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { SlackConfig } from '../types';
+import { logger } from '../utils/logger';
+import {
+  SlackEvent,
+  SlackEventHandler,
+  SlackEventReceiver,
+  SlackInteractionPayload,
+  toActionEvents,
+} from './slack-events';
+
+/** デフォルトの受信ポート */
+const DEFAULT_PORT = 3000;
+
+/** デフォルトの受信パス */
+const DEFAULT_PATH = '/slack/events';
+
+/** 署名タイムスタンプの許容誤差（秒）。リプレイ攻撃対策 */
+const MAX_TIMESTAMP_SKEW_SEC = 60 * 5;
+
+/** リクエストボディの上限サイズ（バイト） */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Events APIのリクエストボディ
+ */
+interface EventsApiPayload {
+  /** 種別（url_verification, event_callback） */
+  type: string;
+  /** URL検証用チャレンジ */
+  challenge?: string;
+  /** イベント本体 */
+  event?: SlackEvent;
+}
+
+/**
+ * Slackのリクエスト署名を検証
+ * @param signingSecret Signing Secret
+ * @param timestamp X-Slack-Request-Timestamp ヘッダー
+ * @param body 生のリクエストボディ
+ * @param signature X-Slack-Signature ヘッダー
+ * @param now 現在時刻（Unix時間秒）
+ * @returns 署名が正しい場合true
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!timestamp || !signature) {
+    return false;
+  }
+
+  const requestTime = parseInt(timestamp, 10);
+  if (isNaN(requestTime) || Math.abs(now - requestTime) > MAX_TIMESTAMP_SKEW_SEC) {
+    return false;
+  }
+
+  const expected =
+    'v0=' + crypto.createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex');
+
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  if (expectedBuffer.length !== signatureBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+/**
+ * Events API受信機
+ */
+export class EventsApiReceiver implements SlackEventReceiver {
+  private signingSecret: string;
+  private port: number;
+  private path: string;
+  private handler: SlackEventHandler;
+  private server?: http.Server;
+
+  /**
+   * コンストラクタ
+   * @param config Slack設定
+   * @param handler イベントハンドラ
+   * @throws Signing Secretが設定されていない場合
+   */
+  constructor(config: SlackConfig, handler: SlackEventHandler) {
+    if (!config.signingSecret) {
+      throw new Error('slack.signingSecret が設定されていません');
+    }
+    this.signingSecret = config.signingSecret;
+    this.port = config.eventsPort ?? DEFAULT_PORT;
+    this.path = config.eventsPath ?? DEFAULT_PATH;
+    this.handler = handler;
+  }
+
+  /**
+   * 受信を開始
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        logger.error('Events APIリクエスト処理エラー', err as Error);
+        if (!res.headersSent) {
+          res.writeHead(500).end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    logger.info('Events API受信開始', { port: this.port, path: this.path });
+  }
+
+  /**
+   * 受信を停止
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return;
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * HTTPリクエストを処理
+   * @param req リクエスト
+   * @param res レスポンス
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method !== 'POST' || url.pathname !== this.path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      res.writeHead(413).end();
+      return;
+    }
+
+    const timestamp = req.headers['x-slack-request-timestamp'] as string | undefined;
+    const signature = req.headers['x-slack-signature'] as string | undefined;
+    if (!verifySlackSignature(this.signingSecret, timestamp, body, signature)) {
+      logger.warn('Events API署名検証失敗');
+      res.writeHead(401).end();
+      return;
+    }
+
+    // インタラクション（ボタン操作）は payload パラメータを含むフォーム形式で送信される
+    if (req.headers['content-type']?.startsWith('application/x-www-form-urlencoded')) {
+      this.handleInteraction(body, res);
+      return;
+    }
+
+    let payload: EventsApiPayload;
+    try {
+      payload = JSON.parse(body) as EventsApiPayload;
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    // URL検証（Event Subscriptions設定時）
+    if (payload.type === 'url_verification') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ challenge: payload.challenge }));
+      return;
+    }
+
+    // 3秒以内に応答しないと再送されるため、先に応答してから処理する
+    res.writeHead(200).end();
+
+    if (payload.type === 'event_callback' && payload.event) {
+      this.dispatch(payload.event);
+    }
+  }
+
+  /**
+   * インタラクションのリクエストを処理
+   * @param body 署名検証済みのリクエストボディ
+   * @param res レスポンス
+   */
+  private handleInteraction(body: string, res: http.ServerResponse): void {
+    let payload: SlackInteractionPayload;
+    try {
+      payload = JSON.parse(new URLSearchParams(body).get('payload') ?? '') as SlackInteractionPayload;
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    res.writeHead(200).end();
+    toActionEvents(payload).forEach((event) => this.dispatch(event));
+  }
+
+  /**
+   * イベントをハンドラに渡す
+   * @param event Slackイベント
+   */
+  private dispatch(event: SlackEvent): void {
+    this.handler(event).catch((err) => {
+      logger.error('イベント処理エラー', err as Error, { eventType: event.type });
+    });
+  }
+}
+
+/**
+ * リクエストボディを読み込む
+ * @param req リクエスト
+ * @returns ボディ文字列。上限サイズを超えた場合はnull
+ */
+function readBody(req: http.IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let exceeded = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        exceeded = true;
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(exceeded ? null : Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
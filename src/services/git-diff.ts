@@ -0,0 +1,159 @@
+/**
+ * 実行前後の作業ツリーの差分取得
+ * 一時インデックスで作業ツリー全体（未追跡ファイルを含む）をツリーオブジェクト化し、実行前後のツリーを比較する
+ * Bash経由の変更（mv, rm, npmスクリプトなど）も検出でき、実行前から存在する未コミットの変更は差分に含まれない
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runGit } from '../utils/git';
+import { logger } from '../utils/logger';
+
+/** パッチの最大サイズ（バイト）。超える場合はパッチを添付しない */
+const MAX_PATCH_BYTES = 5 * 1024 * 1024;
+
+/**
+ * 作業ツリーのスナップショット
+ */
+export interface WorkingTreeSnapshot {
+  /** リポジトリのルートディレクトリ */
+  root: string;
+  /** 作業ツリーを表すツリーオブジェクトのハッシュ */
+  tree: string;
+}
+
+/**
+ * ファイルごとの変更統計
+ */
+export interface DiffFileStat {
+  /** ファイルパス（リポジトリルートからの相対パス。名前変更の場合は "旧 => 新"） */
+  path: string;
+  /** 変更種別（A: 追加, M: 変更, D: 削除, R: 名前変更 など） */
+  status: string;
+  /** 追加行数 */
+  insertions: number;
+  /** 削除行数 */
+  deletions: number;
+  /** バイナリファイルか */
+  binary: boolean;
+}
+
+/**
+ * 作業ツリーの差分
+ */
+export interface WorkingTreeDiff {
+  /** ファイルごとの変更統計 */
+  files: DiffFileStat[];
+  /** 追加行数の合計 */
+  insertions: number;
+  /** 削除行数の合計 */
+  deletions: number;
+  /** パッチ全文（サイズ上限を超えた場合はundefined） */
+  patch?: string;
+}
+
+/**
+ * 作業ツリーをツリーオブジェクトとして書き出す
+ * 実際のインデックスを汚さないよう、コピーした一時インデックスを使用する。
+ * 一時インデックスは呼び出しごとに専用の一時ディレクトリに作成し、同時に実行される他のジョブと共有しない
+ *
+ * 変更されたファイル・未追跡ファイル（.gitignore の対象を除く）の内容はblobとしてリポジトリに書き込まれる。
+ * どこからも参照されないオブジェクトとして残り、git gc の実行時に（gc.pruneExpire の期間を過ぎたものから）削除される
+ * @param root リポジトリのルートディレクトリ
+ * @returns ツリーオブジェクトのハッシュ
+ */
+async function writeWorkingTree(root: string): Promise<string> {
+  const indexPath = path.resolve(root, (await runGit(root, ['rev-parse', '--git-path', 'index'])).trim());
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'slack-claude-index-'));
+  const tempIndex = path.join(tempDir, 'index');
+
+  try {
+    // 既存のインデックスをコピーすると、変更のないファイルのハッシュ計算を省略できる
+    if (fs.existsSync(indexPath)) {
+      fs.copyFileSync(indexPath, tempIndex);
+    }
+    const env = { GIT_INDEX_FILE: tempIndex };
+    await runGit(root, ['add', '-A'], { env });
+    return (await runGit(root, ['write-tree'], { env })).trim();
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 作業ツリーのスナップショットを取得
+ * @param cwd 作業ディレクトリ
+ * @returns スナップショット。gitリポジトリでない場合や取得に失敗した場合はundefined
+ */
+export async function takeSnapshot(cwd: string): Promise<WorkingTreeSnapshot | undefined> {
+  let root: string;
+  try {
+    root = (await runGit(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  } catch {
+    // gitリポジトリでない
+    return undefined;
+  }
+
+  try {
+    return { root, tree: await writeWorkingTree(root) };
+  } catch (err) {
+    logger.error('作業ツリーのスナップショット取得エラー', err as Error, { cwd });
+    return undefined;
+  }
+}
+
+/**
+ * スナップショットから現在の作業ツリーまでの差分を取得
+ * @param before 実行前のスナップショット
+ * @returns 差分
+ */
+export async function diffSinceSnapshot(before: WorkingTreeSnapshot): Promise<WorkingTreeDiff> {
+  const { root } = before;
+  const after = await writeWorkingTree(root);
+  if (after === before.tree) {
+    return { files: [], insertions: 0, deletions: 0, patch: '' };
+  }
+
+  const diffArgs = ['diff', '--no-color', '--no-ext-diff', '-M', before.tree, after];
+  const [numstat, nameStatus] = await Promise.all([
+    runGit(root, [...diffArgs, '--numstat']),
+    runGit(root, [...diffArgs, '--name-status']),
+  ]);
+
+  // --numstat と --name-status は同じ順序でファイルを出力する
+  const statuses = nameStatus
+    .split('\n')
+    .filter((line) => line)
+    .map((line) => line.split('\t')[0].charAt(0));
+
+  const files = numstat
+    .split('\n')
+    .filter((line) => line)
+    .map((line, i): DiffFileStat => {
+      const [added, removed, ...rest] = line.split('\t');
+      const binary = added === '-';
+      return {
+        path: rest.join('\t'),
+        status: statuses[i] ?? 'M',
+        insertions: binary ? 0 : parseInt(added, 10),
+        deletions: binary ? 0 : parseInt(removed, 10),
+        binary,
+      };
+    });
+
+  let patch: string | undefined;
+  try {
+    patch = await runGit(root, diffArgs, { maxBuffer: MAX_PATCH_BYTES });
+  } catch (err) {
+    // サイズ上限超過の場合もここに来る
+    logger.warn('パッチ取得エラーのため添付しません', { root, error: (err as Error).message });
+  }
+
+  return {
+    files,
+    insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    patch,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * ジョブキュー
+ * Claude Code CLIの同時実行数を制限し、同じキー（プロジェクトまたはスレッド）のジョブを直列化する
+ */
+
+import { logger } from '../utils/logger';
+
+/**
+ * ジョブ情報
+ */
+export interface JobInfo {
+  /** 直列化キー（同じキーのジョブは同時に実行しない） */
+  key: string;
+  /** チャンネルID */
+  channelId: string;
+  /** スレッドの親タイムスタンプ */
+  threadTs: string;
+  /** プロジェクト名 */
+  projectName: string;
+  /** 依頼したユーザーID */
+  userId?: string;
+}
+
+/**
+ * キュー内のジョブ
+ */
+interface QueuedJob {
+  /** ジョブID */
+  id: number;
+  /** ジョブ情報 */
+  info: JobInfo;
+  /** 実行する処理 */
+  task: () => Promise<void>;
+  /** キュー投入日時（Unix時間ミリ秒） */
+  enqueuedAt: number;
+  /** 実行開始日時（Unix時間ミリ秒） */
+  startedAt?: number;
+  /** 完了通知 */
+  resolve: () => void;
+  /** 失敗通知 */
+  reject: (err: unknown) => void;
+}
+
+/**
+ * ジョブの状態（一覧表示用）
+ */
+export interface JobStatus extends JobInfo {
+  /** ジョブID */
+  id: number;
+  /** キュー投入日時（Unix時間ミリ秒） */
+  enqueuedAt: number;
+  /** 実行開始日時（Unix時間ミリ秒、実行中の場合） */
+  startedAt?: number;
+}
+
+/**
+ * キュー投入結果
+ */
+export interface EnqueueResult {
+  /** ジョブID */
+  id: number;
+  /** 待ち順（0: 即時実行、1以上: 前に待っているジョブ数+1） */
+  position: number;
+  /** ジョブ完了時に解決されるPromise */
+  done: Promise<void>;
+}
+
+/**
+ * ジョブキュー
+ */
+export class JobQueue {
+  private maxConcurrency: number;
+  private pending: QueuedJob[] = [];
+  private running = new Map<number, QueuedJob>();
+  private runningKeys = new Set<string>();
+  private nextId = 1;
+
+  /**
+   * コンストラクタ
+   * @param maxConcurrency 全体での最大同時実行数
+   */
+  constructor(maxConcurrency: number) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  /**
+   * 最大同時実行数を変更
+   * 減らした場合も実行中のジョブは中断せず、完了を待って新しい上限に従う
+   * @param maxConcurrency 全体での最大同時実行数
+   */
+  setMaxConcurrency(maxConcurrency: number): void {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+    this.drain();
+  }
+
+  /**
+   * ジョブをキューに追加
+   * @param info ジョブ情報
+   * @param task 実行する処理
+   * @returns キュー投入結果
+   */
+  enqueue(info: JobInfo, task: () => Promise<void>): EnqueueResult {
+    let resolve!: () => void;
+    let reject!: (err: unknown) => void;
+    const done = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const job: QueuedJob = {
+      id: this.nextId++,
+      info,
+      task,
+      enqueuedAt: Date.now(),
+      resolve,
+      reject,
+    };
+
+    this.pending.push(job);
+    this.drain();
+
+    const position = this.pending.indexOf(job) + 1;
+
+    logger.info('ジョブ追加', {
+      jobId: job.id,
+      key: info.key,
+      position,
+      running: this.running.size,
+      pending: this.pending.length,
+    });
+
+    return { id: job.id, position, done };
+  }
+
+  /**
+   * 実行中のジョブ一覧を取得
+   * @returns ジョブ状態一覧
+   */
+  getRunning(): JobStatus[] {
+    return Array.from(this.running.values()).map(toJobStatus);
+  }
+
+  /**
+   * 待機中のジョブ一覧を取得
+   * @returns ジョブ状態一覧（実行順）
+   */
+  getPending(): JobStatus[] {
+    return this.pending.map(toJobStatus);
+  }
+
+  /**
+   * 実行可能なジョブを開始
+   * 同時実行数に空きがあり、同じキーのジョブが実行中でないものを先頭から順に開始する
+   */
+  private drain(): void {
+    for (let i = 0; i < this.pending.length && this.running.size < this.maxConcurrency; ) {
+      const job = this.pending[i];
+      if (this.runningKeys.has(job.info.key)) {
+        i++;
+        continue;
+      }
+      this.pending.splice(i, 1);
+      this.start(job);
+    }
+  }
+
+  /**
+   * ジョブを実行
+   * @param job ジョブ
+   */
+  private start(job: QueuedJob): void {
+    job.startedAt = Date.now();
+    this.running.set(job.id, job);
+    this.runningKeys.add(job.info.key);
+
+    logger.info('ジョブ開始', {
+      jobId: job.id,
+      key: job.info.key,
+      waited: job.startedAt - job.enqueuedAt,
+    });
+
+    job
+      .task()
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        this.running.delete(job.id);
+        this.runningKeys.delete(job.info.key);
+        logger.info('ジョブ完了', {
+          jobId: job.id,
+          key: job.info.key,
+          duration: Date.now() - (job.startedAt ?? job.enqueuedAt),
+        });
+        this.drain();
+      });
+  }
+}
+
+/**
+ * キュー内のジョブを状態に変換
+ * @param job ジョブ
+ * @returns ジョブ状態
+ */
+function toJobStatus(job: QueuedJob): JobStatus {
+  return {
+    ...job.info,
+    id: job.id,
+    enqueuedAt: job.enqueuedAt,
+    startedAt: job.startedAt,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Bot自身のコマンド（!claude help / projects / status / sessions / usage）の応答生成
+ */
+
+import { AppConfig, BudgetConfig, PromptTemplateConfig, ThreadSession, UsageRecord } from '../types';
+import { JobStatus } from './job-queue';
+import { getSessionActivityTime } from './session-store';
+import { formatCost, formatTokens, getPeriodStart, groupUsage, sumUsage, UsageTotals } from './usage-tracker';
+import { formatDuration } from '../utils/duration';
+
+/** セッション一覧に表示する最大件数 */
+const MAX_LISTED_SESSIONS = 20;
+
+/** 利用状況の内訳に表示する最大件数 */
+const MAX_USAGE_BREAKDOWN = 10;
+
+/**
+ * 経過時間をおおまかにフォーマット
+ * @param ms 経過時間（ミリ秒）
+ * @returns フォーマット済み文字列（例: 5分、3時間、2日）
+ */
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) {
+    return `${minutes}分`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}時間` : `${Math.floor(hours / 24)}日`;
+}
+
+/**
+ * スレッドへのリンクを生成
+ * @param channelId チャンネルID
+ * @param threadTs スレッドの親タイムスタンプ
+ * @returns Markdown形式のリンク
+ */
+function threadLink(channelId: string, threadTs: string): string {
+  return `[スレッド](https://slack.com/archives/${channelId}/p${threadTs.replace('.', '')})`;
+}
+
+/**
+ * ヘルプを生成
+ * @param templates テンプレート名とプロンプトテンプレートのマッピング
+ * @returns ヘルプ（Markdown）
+ */
+export function formatHelp(templates: Record<string, PromptTemplateConfig> = {}): string {
+  const lines = [
+    '**使い方**',
+    '- `!claude <プロジェクト名> <依頼内容>` プロジェクトでClaude Codeを実行',
+    '- `@Bot <依頼内容>` チャンネルのデフォルトプロジェクトで実行',
+    '- `!claude <プロジェクト名> --model opus --max-turns 20 --timeout 15m <依頼内容>` モデル・最大ターン数・タイムアウトを指定して実行',
+    '- スレッドに返信すると会話を継続（返信の先頭でも実行オプションを変更可能）',
+    '',
+    '**コマンド**',
+    '- `!claude help` このヘルプを表示',
+    '- `!claude projects` プロジェクト一覧とチャンネルのデフォルトプロジェクトを表示',
+    '- `!claude status` 実行中・待機中のジョブを表示',
+    '- `!claude sessions` このチャンネルのアクティブなスレッドを表示',
+    '- `!claude usage` 本日・今月の利用額とトークン数を表示',
+    '- `!claude reset` （スレッド内）新しいClaudeセッションで会話をやり直す',
+    '- `!claude cancel` （スレッド内）実行中・待機中のジョブをキャンセル',
+    '- `!claude close` （スレッド内）セッションを終了（スレッドの親メッセージに :lock: を付けても終了）',
+  ];
+
+  const entries = Object.values(templates);
+  if (entries.length > 0) {
+    lines.push('', '**テンプレート**（`!claude <プロジェクト名> /<テンプレート名> <引数>` で実行）');
+    for (const template of entries) {
+      lines.push(`- \`/${template.name}\`${template.description ? ` ${template.description}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * プロジェクト一覧を生成
+ * @param config アプリケーション設定
+ * @returns プロジェクト一覧（Markdown）
+ */
+export function formatProjects(config: AppConfig): string {
+  const lines = ['**プロジェクト一覧**'];
+  for (const project of Object.values(config.projects)) {
+    const features = [project.worktree && 'worktree', project.approval && '承認あり', project.permissionMode]
+      .filter((feature): feature is string => !!feature)
+      .join(', ');
+    lines.push(`- \`${project.name}\`${features ? `（${features}）` : ''}`);
+  }
+
+  const defaults = Object.values(config.channels ?? {}).filter((channel) => channel.defaultProject);
+  if (defaults.length > 0) {
+    lines.push('', '**チャンネルのデフォルトプロジェクト**');
+    for (const channel of defaults) {
+      lines.push(`- <#${channel.channelId}> → \`${channel.defaultProject}\``);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * ジョブの状態一覧を生成
+ * @param running 実行中のジョブ
+ * @param pending 待機中のジョブ（実行順）
+ * @param now 現在時刻（Unix時間ミリ秒）
+ * @returns ジョブの状態一覧（Markdown）
+ */
+export function formatJobStatus(running: JobStatus[], pending: JobStatus[], now: number = Date.now()): string {
+  if (running.length === 0 && pending.length === 0) {
+    return '実行中・待機中のジョブはありません';
+  }
+
+  const describe = (job: JobStatus): string => {
+    const user = job.userId ? ` <@${job.userId}>` : '';
+    return `\`${job.projectName}\` ${threadLink(job.channelId, job.threadTs)}${user}`;
+  };
+
+  const lines: string[] = [];
+  if (running.length > 0) {
+    lines.push(`**実行中のジョブ（${running.length}件）**`);
+    for (const job of running) {
+      lines.push(`- ${describe(job)} ${formatDuration(now - (job.startedAt ?? now))}経過`);
+    }
+  }
+  if (pending.length > 0) {
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    lines.push(`**待機中のジョブ（${pending.length}件）**`);
+    pending.forEach((job, i) => {
+      lines.push(`${i + 1}. ${describe(job)} ${formatDuration(now - job.enqueuedAt)}待機`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * チャンネルのアクティブなスレッド一覧を生成
+ * @param sessions スレッドセッション一覧（キー: "channelId:threadTs"）
+ * @param channelId チャンネルID
+ * @param now 現在時刻（Unix時間ミリ秒）
+ * @returns スレッド一覧（Markdown）
+ */
+export function formatSessions(
+  sessions: Array<[string, ThreadSession]>,
+  channelId: string,
+  now: number = Date.now()
+): string {
+  const active = sessions
+    .filter(([key]) => key.startsWith(`${channelId}:`))
+    .map(([key, session]) => ({ threadTs: key.split(':')[1], session, activity: getSessionActivityTime(key, session) }))
+    .sort((a, b) => b.activity - a.activity);
+
+  if (active.length === 0) {
+    return 'このチャンネルにアクティブなスレッドはありません';
+  }
+
+  const lines = [`**アクティブなスレッド（${active.length}件）**`];
+  for (const { threadTs, session, activity } of active.slice(0, MAX_LISTED_SESSIONS)) {
+    const branch = session.branch ? ` ブランチ \`${session.branch}\`` : '';
+    lines.push(
+      `- \`${session.projectName}\` ${threadLink(channelId, threadTs)}${branch} 最終更新: ${formatAge(now - activity)}前`
+    );
+  }
+  if (active.length > MAX_LISTED_SESSIONS) {
+    lines.push(`…他${active.length - MAX_LISTED_SESSIONS}件`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 集計値を1行にフォーマット
+ * @param totals 集計値
+ * @returns フォーマット済み文字列
+ */
+function formatTotals(totals: UsageTotals): string {
+  return (
+    `${formatCost(totals.costUsd)}（${totals.runs}回, ` +
+    `入力 ${formatTokens(totals.inputTokens)} / 出力 ${formatTokens(totals.outputTokens)} トークン）`
+  );
+}
+
+/**
+ * 利用状況を生成
+ * @param records 今月以降の利用量の記録
+ * @param budgets 利用上限設定
+ * @param now 現在時刻（Unix時間ミリ秒）
+ * @returns 利用状況（Markdown）
+ */
+export function formatUsage(records: UsageRecord[], budgets?: BudgetConfig, now: number = Date.now()): string {
+  const monthly = records.filter((record) => record.timestamp >= getPeriodStart('monthly', now));
+  const daily = monthly.filter((record) => record.timestamp >= getPeriodStart('daily', now));
+  const limit = (value?: number): string => (value !== undefined ? ` / 上限 ${formatCost(value)}` : '');
+
+  const lines = [
+    '**利用状況**',
+    `- 本日: ${formatTotals(sumUsage(daily))}${limit(budgets?.daily?.total)}`,
+    `- 今月: ${formatTotals(sumUsage(monthly))}${limit(budgets?.monthly?.total)}`,
+  ];
+
+  const breakdowns: Array<[string, (record: UsageRecord) => string | undefined, (key: string) => string]> = [
+    ['プロジェクト別', (record) => record.projectName, (key) => `\`${key}\``],
+    ['ユーザー別', (record) => record.userId, (key) => `<@${key}>`],
+    ['チャンネル別', (record) => record.channelId, (key) => `<#${key}>`],
+  ];
+  for (const [title, getKey, label] of breakdowns) {
+    const groups = groupUsage(monthly, getKey);
+    if (groups.length === 0) {
+      continue;
+    }
+    lines.push('', `**今月の${title}**`);
+    for (const [key, totals] of groups.slice(0, MAX_USAGE_BREAKDOWN)) {
+      lines.push(`- ${label(key)} ${formatTotals(totals)}`);
+    }
+    if (groups.length > MAX_USAGE_BREAKDOWN) {
+      lines.push(`…他${groups.length - MAX_USAGE_BREAKDOWN}件`);
+    }
+  }
+
+  return lines.join('\n');
+}
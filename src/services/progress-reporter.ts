@@ -0,0 +1,165 @@
+/**
+ * 進捗表示
+ * 「処理中...」メッセージを chat.update で定期的に書き換え、実行中のステップを表示する
+ */
+
+import { ClaudeProgress } from './claude-executor';
+import { MessageOptions, SlackClient } from './slack-client';
+import { formatDuration } from '../utils/duration';
+import { logger } from '../utils/logger';
+
+/** デフォルトの更新間隔（ミリ秒） */
+const DEFAULT_UPDATE_INTERVAL_MS = 5000;
+
+/**
+ * ツール名の日本語表記
+ */
+const TOOL_LABELS: Record<string, string> = {
+  Read: '読み込み中',
+  Write: '作成中',
+  Edit: '編集中',
+  MultiEdit: '編集中',
+  NotebookEdit: '編集中',
+  Bash: 'コマンド実行中',
+  Grep: '検索中',
+  Glob: 'ファイル検索中',
+  WebFetch: 'Web取得中',
+  WebSearch: 'Web検索中',
+  Task: 'サブタスク実行中',
+  TodoWrite: 'TODO更新中',
+};
+
+/**
+ * 進捗表示オプション
+ */
+export interface ProgressReporterOptions {
+  /** チャンネルID */
+  channelId: string;
+  /** スレッドの親タイムスタンプ */
+  threadTs: string;
+  /** 更新対象の「処理中...」メッセージのタイムスタンプ */
+  messageTs: string;
+  /** プロジェクトパス（相対パス表示用） */
+  projectPath: string;
+  /** 更新間隔（ミリ秒） */
+  intervalMs?: number;
+}
+
+/**
+ * 進捗表示
+ */
+export class ProgressReporter {
+  private slackClient: SlackClient;
+  private options: ProgressReporterOptions;
+  private startTime = Date.now();
+  private latest?: ClaudeProgress;
+  private lastRendered = '';
+  private timer?: NodeJS.Timeout;
+  private inFlight?: Promise<void>;
+
+  /**
+   * コンストラクタ
+   * @param slackClient Slackクライアント
+   * @param options 進捗表示オプション
+   */
+  constructor(slackClient: SlackClient, options: ProgressReporterOptions) {
+    this.slackClient = slackClient;
+    this.options = options;
+  }
+
+  /**
+   * 定期更新を開始
+   */
+  start(): void {
+    this.startTime = Date.now();
+    this.timer = setInterval(() => this.flush(), this.options.intervalMs ?? DEFAULT_UPDATE_INTERVAL_MS);
+  }
+
+  /**
+   * 最新の進捗を記録（反映は次の定期更新時）
+   * @param progress 進捗情報
+   */
+  report(progress: ClaudeProgress): void {
+    this.latest = progress;
+  }
+
+  /**
+   * 定期更新を停止
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * 「処理中...」メッセージを最終回答で置き換える
+   * 長文の場合は続きを後続メッセージまたは添付ファイルとして投稿する
+   * @param text 最終回答
+   * @param options 投稿オプション
+   */
+  async finish(text: string, options: MessageOptions = {}): Promise<void> {
+    this.stop();
+    await this.inFlight;
+
+    const { channelId, threadTs, messageTs } = this.options;
+    await this.slackClient.postResponse(channelId, text, threadTs, { ...options, replaceTs: messageTs });
+  }
+
+  /**
+   * 進捗をメッセージに反映
+   * 前回の更新が完了していない場合はスキップする
+   */
+  private flush(): void {
+    if (this.inFlight) {
+      return;
+    }
+
+    const text = this.render();
+    if (text === this.lastRendered) {
+      return;
+    }
+    this.lastRendered = text;
+
+    const { channelId, messageTs } = this.options;
+    this.inFlight = this.slackClient
+      .updateMessage(channelId, messageTs, text)
+      .catch((err) => {
+        logger.warn('進捗メッセージ更新エラー', { channelId, messageTs, error: (err as Error).message });
+      })
+      .finally(() => {
+        this.inFlight = undefined;
+      });
+  }
+
+  /**
+   * 進捗メッセージを生成
+   * @returns メッセージテキスト
+   */
+  private render(): string {
+    const lines = [`処理中... (${formatDuration(Date.now() - this.startTime)}経過)`];
+
+    if (this.latest?.toolName) {
+      const label = TOOL_LABELS[this.latest.toolName] || `${this.latest.toolName} 実行中`;
+      // インラインコード内のバッククォートは表示が崩れるため置換
+      const target = this.latest.target
+        ? `: \`${this.toRelativePath(this.latest.target).replace(/`/g, "'")}\``
+        : '';
+      lines.push(`:hammer_and_wrench: ${label}${target}`);
+      lines.push(`ツール実行回数: ${this.latest.toolCount}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * プロジェクトパスからの相対パスに変換
+   * @param target 対象
+   * @returns 相対パス（プロジェクト外の場合はそのまま）
+   */
+  private toRelativePath(target: string): string {
+    const { projectPath } = this.options;
+    return target.startsWith(`${projectPath}/`) ? target.substring(projectPath.length + 1) : target;
+  }
+}
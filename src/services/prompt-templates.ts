@@ -0,0 +1,172 @@
+/**
+ * プロンプトテンプレートとシステムプロンプト
+ * 設定の名前付きテンプレートを `/<テンプレート名> <引数>` で呼び出して展開し、
+ * システムプロンプトを全体 → プロジェクト → チャンネルの順に重ねる
+ */
+
+import { AppConfig, PromptTemplateConfig } from '../types';
+
+/** テンプレート名として使える文字列 */
+export const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9][\w-]*$/;
+
+/** 名前で参照できるプレースホルダー */
+export const TEMPLATE_PLACEHOLDERS = ['args', 'user', 'channel', 'branch', 'project'] as const;
+
+/** プレースホルダーのパターン（{{args}} や {{ 1 }} など） */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** テンプレート呼び出しのパターン（/review src/auth など） */
+const INVOCATION_PATTERN = /^\/([\w-]+)(?:\s+([\s\S]*))?$/;
+
+/**
+ * テンプレートの展開に使う値
+ */
+export interface TemplateContext {
+  /** 引数（テンプレート名の後ろの文字列） */
+  args: string;
+  /** 依頼したユーザーの表示名 */
+  user: string;
+  /** チャンネル名 */
+  channel: string;
+  /** 作業ディレクトリのブランチ名 */
+  branch: string;
+  /** プロジェクト名 */
+  project: string;
+}
+
+/**
+ * テンプレートの呼び出し
+ */
+export interface TemplateInvocation {
+  /** 呼び出されたテンプレート */
+  template: PromptTemplateConfig;
+  /** 引数（テンプレート名の後ろの文字列） */
+  args: string;
+}
+
+/**
+ * オブジェクト自身がキーを持つか判定（Object.prototype のメソッド名を設定値とみなさないため）
+ * @param object 対象のオブジェクト
+ * @param key キー
+ * @returns 自身のプロパティとして持つ場合true
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * 引数を空白で分割
+ * 引用符（"..." / '...'）で囲んだ部分は空白を含めて1つの引数とする
+ * @param args 引数
+ * @returns 引数一覧
+ */
+export function splitTemplateArgs(args: string): string[] {
+  const result: string[] = [];
+  for (const match of args.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    result.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return result;
+}
+
+/**
+ * プロンプトからテンプレートの呼び出しを取り出す
+ * 設定にないテンプレート名はClaude Code自身のスラッシュコマンドとして扱うため、呼び出しとみなさない
+ * @param prompt プロンプト
+ * @param templates テンプレート名とプロンプトテンプレートのマッピング
+ * @returns テンプレートの呼び出し。呼び出しでない場合はnull
+ */
+export function parseTemplateInvocation(
+  prompt: string,
+  templates: Record<string, PromptTemplateConfig> | undefined
+): TemplateInvocation | null {
+  const match = prompt.trim().match(INVOCATION_PATTERN);
+  if (!match || !templates || !hasOwn(templates, match[1])) {
+    return null;
+  }
+  return { template: templates[match[1]], args: (match[2] ?? '').trim() };
+}
+
+/**
+ * テンプレートが参照する位置引数の数を取得
+ * @param template プロンプトテンプレート
+ * @returns 必要な引数の数（{{2}} まで参照している場合は2）
+ */
+export function getRequiredArgCount(template: PromptTemplateConfig): number {
+  let count = 0;
+  for (const [, name] of template.prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    if (/^\d+$/.test(name)) {
+      count = Math.max(count, parseInt(name, 10));
+    }
+  }
+  return count;
+}
+
+/**
+ * テンプレートの呼び出しに必要な引数が指定されているか確認
+ * @param invocation テンプレートの呼び出し
+ * @returns エラーメッセージ。問題がない場合はundefined
+ */
+export function checkTemplateArgs(invocation: TemplateInvocation): string | undefined {
+  const { template, args } = invocation;
+  const required = getRequiredArgCount(template);
+  const given = splitTemplateArgs(args).length;
+  if (given >= required) {
+    return undefined;
+  }
+  const usage = template.description ? `（${template.description}）` : '';
+  return `テンプレート "/${template.name}" には引数が${required}個必要です${usage}`;
+}
+
+/**
+ * テンプレートに含まれる不明なプレースホルダーを取得
+ * @param prompt テンプレートのプロンプト
+ * @returns 不明なプレースホルダー名（重複なし）
+ */
+export function findUnknownPlaceholders(prompt: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, name] of prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    const isPositional = /^[1-9]\d*$/.test(name);
+    if (!isPositional && !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      unknown.add(name);
+    }
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * テンプレートを展開
+ * {{1}} などの位置引数は、引数を空白で分割したものに置換する（指定されていない場合は空文字）
+ * @param template プロンプトテンプレート
+ * @param context 展開に使う値
+ * @returns 展開したプロンプト
+ */
+export function expandTemplate(template: PromptTemplateConfig, context: TemplateContext): string {
+  const positional = splitTemplateArgs(context.args);
+  return template.prompt
+    .replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      if (/^\d+$/.test(name)) {
+        return positional[parseInt(name, 10) - 1] ?? '';
+      }
+      return hasOwn(context, name) ? context[name as keyof TemplateContext] : placeholder;
+    })
+    .trim();
+}
+
+/**
+ * システムプロンプトを解決
+ * claude.systemPrompt → プロジェクト → チャンネルの順に、空行を挟んで連結する
+ * @param config アプリケーション設定
+ * @param projectName プロジェクト名
+ * @param channelId チャンネルID
+ * @returns システムプロンプト。いずれも未設定の場合はundefined
+ */
+export function resolveSystemPrompt(config: AppConfig, projectName: string, channelId: string): string | undefined {
+  const layers = [
+    config.claude?.systemPrompt,
+    config.projects[projectName]?.systemPrompt,
+    config.channels?.[channelId]?.systemPrompt,
+  ]
+    .map((prompt) => prompt?.trim())
+    .filter((prompt): prompt is string => !!prompt);
+  return layers.length > 0 ? layers.join('\n\n') : undefined;
+}
@@ -0,0 +1,125 @@
+/**
+ * 実行オプション（モデル・最大ターン数・タイムアウト）
+ * 依頼時の指定にプロジェクトのデフォルトを補い、設定された上限を超えていないか確認する
+ */
+
+import { RunOptions, RunOptionsConfig } from '../types';
+import { formatDuration, parseDuration } from '../utils/duration';
+
+/** タイムアウトのデフォルト（ミリ秒） */
+export const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** 指定できるタイムアウトの上限のデフォルト（ミリ秒） */
+export const DEFAULT_MAX_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** モデル名として受け付ける文字列（CLIのオプションと誤認されないよう先頭は英数字） */
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9][\w.:[\]-]*$/;
+
+/**
+ * 実行オプションのエラー
+ * 形式が不正な場合や、プロジェクトの上限を超えている場合に発生する
+ */
+export class RunOptionError extends Error {
+  /**
+   * コンストラクタ
+   * @param message エラーメッセージ
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunOptionError';
+  }
+}
+
+/**
+ * 解決済みの実行オプション
+ */
+export interface ResolvedRunOptions extends RunOptions {
+  /** タイムアウト（ミリ秒） */
+  timeoutMs: number;
+}
+
+/**
+ * モデル名の形式を検証
+ * @param model モデル名
+ * @returns モデル名として受け付ける形式の場合true
+ */
+export function isValidModelName(model: string): boolean {
+  return MODEL_NAME_PATTERN.test(model);
+}
+
+/**
+ * プロジェクトのデフォルトのタイムアウトを取得
+ * @param config 実行オプションの設定
+ * @returns タイムアウト（ミリ秒）
+ */
+function getDefaultTimeout(config: RunOptionsConfig | undefined): number {
+  return config?.timeout !== undefined ? parseDuration(config.timeout) : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * 指定できるタイムアウトの上限を取得
+ * デフォルトのタイムアウトが上限のデフォルトより長い場合は、デフォルトのタイムアウトまで指定できる
+ * @param config 実行オプションの設定
+ * @returns タイムアウトの上限（ミリ秒）
+ */
+function getMaxTimeout(config: RunOptionsConfig | undefined): number {
+  if (config?.maxTimeout !== undefined) {
+    return parseDuration(config.maxTimeout);
+  }
+  return Math.max(DEFAULT_MAX_TIMEOUT_MS, getDefaultTimeout(config));
+}
+
+/**
+ * 実行オプションを解決
+ * 指定されていない項目はプロジェクトのデフォルトを使う
+ * @param config プロジェクトの実行オプションの設定
+ * @param requested 依頼時に指定された実行オプション
+ * @returns 解決済みの実行オプション
+ * @throws {RunOptionError} 指定がプロジェクトで許可されていない、または上限を超えている場合
+ */
+export function resolveRunOptions(
+  config: RunOptionsConfig | undefined,
+  requested: RunOptions = {}
+): ResolvedRunOptions {
+  const allowedModels = config?.allowedModels;
+  if (requested.model !== undefined && allowedModels && !allowedModels.includes(requested.model)) {
+    throw new RunOptionError(
+      `モデル "${requested.model}" はこのプロジェクトでは使用できません（使用できるモデル: ${allowedModels.join(', ')}）`
+    );
+  }
+
+  const maxTurnsLimit = config?.maxTurnsLimit;
+  if (requested.maxTurns !== undefined && maxTurnsLimit !== undefined && requested.maxTurns > maxTurnsLimit) {
+    throw new RunOptionError(`最大ターン数は ${maxTurnsLimit} 以下で指定してください`);
+  }
+
+  const maxTimeout = getMaxTimeout(config);
+  if (requested.timeoutMs !== undefined && requested.timeoutMs > maxTimeout) {
+    throw new RunOptionError(`タイムアウトは ${formatDuration(maxTimeout)} 以下で指定してください`);
+  }
+
+  return {
+    model: requested.model ?? config?.model,
+    maxTurns: requested.maxTurns ?? config?.maxTurns,
+    timeoutMs: requested.timeoutMs ?? getDefaultTimeout(config),
+  };
+}
+
+/**
+ * 指定された実行オプションを表示用にフォーマット
+ * @param options 実行オプション
+ * @returns フォーマット済み文字列（例: モデル opus ・ 最大20ターン ・ タイムアウト15分）。指定がない場合は空文字
+ */
+export function formatRunOptions(options: RunOptions): string {
+  const parts: string[] = [];
+  if (options.model) {
+    parts.push(`モデル ${options.model}`);
+  }
+  if (options.maxTurns !== undefined) {
+    parts.push(`最大${options.maxTurns}ターン`);
+  }
+  if (options.timeoutMs !== undefined) {
+    parts.push(`タイムアウト${formatDuration(options.timeoutMs)}`);
+  }
+  return parts.join(' ・ ');
+}
@@ -0,0 +1,91 @@
+/**
+ * 定期実行のスケジューラー
+ * 毎分0秒にcron式を評価し、一致した定期実行を通知する。停止中に過ぎた実行時刻の分は実行しない
+ */
+
+import { ScheduleConfig } from '../types';
+import { CronExpression, matchesCron, parseCron } from '../utils/cron';
+import { logger } from '../utils/logger';
+
+/**
+ * 定期実行を処理するハンドラ
+ */
+export type ScheduleHandler = (schedule: ScheduleConfig) => void;
+
+/**
+ * 定期実行のスケジューラー
+ */
+export class Scheduler {
+  private entries: Array<{ schedule: ScheduleConfig; cron: CronExpression }> = [];
+  private onFire: ScheduleHandler;
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * コンストラクタ
+   * @param schedules 定期実行設定一覧
+   * @param onFire 実行時刻になった定期実行を処理するハンドラ
+   */
+  constructor(schedules: ScheduleConfig[], onFire: ScheduleHandler) {
+    this.onFire = onFire;
+    this.update(schedules);
+  }
+
+  /**
+   * 定期実行設定を更新（設定の再読み込み時）
+   * @param schedules 定期実行設定一覧
+   */
+  update(schedules: ScheduleConfig[]): void {
+    this.entries = [];
+    for (const schedule of schedules) {
+      try {
+        this.entries.push({ schedule, cron: parseCron(schedule.cron) });
+      } catch (err) {
+        logger.error('定期実行のcron式が不正です', err as Error, { name: schedule.name });
+      }
+    }
+  }
+
+  /**
+   * スケジューラーを開始
+   */
+  start(): void {
+    logger.info('定期実行のスケジューラー開始', { scheduleCount: this.entries.length });
+    this.scheduleNextTick();
+  }
+
+  /**
+   * スケジューラーを停止
+   */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * 次の分の0秒にタイマーを設定
+   */
+  private scheduleNextTick(): void {
+    const now = Date.now();
+    const nextMinute = Math.floor(now / 60000) * 60000 + 60000;
+    this.timer = setTimeout(() => this.tick(nextMinute), nextMinute - now);
+  }
+
+  /**
+   * 指定した分に一致する定期実行を通知
+   * @param minute 対象の分の開始時刻（Unix時間ミリ秒）
+   */
+  private tick(minute: number): void {
+    const date = new Date(minute);
+    for (const { schedule, cron } of this.entries) {
+      if (matchesCron(cron, date)) {
+        logger.info('定期実行の時刻', { name: schedule.name, project: schedule.project, channel: schedule.channel });
+        try {
+          this.onFire(schedule);
+        } catch (err) {
+          logger.error('定期実行エラー', err as Error, { name: schedule.name });
+        }
+      }
+    }
+    this.scheduleNextTick();
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * スレッドセッションのライフサイクル
+ * やり取りのないセッションの期限切れ判定と、最終活動からの経過時間に応じたスレッドのポーリング間隔を扱う
+ */
+
+import { SessionConfig, ThreadSession } from '../types';
+import { getSessionActivityTime, slackTsToMillis } from './session-store';
+
+/** デフォルトのセッションの有効時間（時間） */
+const DEFAULT_IDLE_TIMEOUT_HOURS = 72;
+
+/**
+ * スレッドのポーリング間隔（最終活動からの経過時間ごと）
+ * 経過時間が idleMs 未満のスレッドは intervalMs ごとに確認する。最後の段階はそれ以上経過したスレッドに適用する
+ */
+const THREAD_POLL_TIERS: Array<{ idleMs: number; intervalMs: number }> = [
+  { idleMs: 10 * 60 * 1000, intervalMs: 0 },
+  { idleMs: 60 * 60 * 1000, intervalMs: 60 * 1000 },
+  { idleMs: 6 * 60 * 60 * 1000, intervalMs: 5 * 60 * 1000 },
+  { idleMs: Infinity, intervalMs: 15 * 60 * 1000 },
+];
+
+/**
+ * セッションの有効時間を取得
+ * @param config スレッドセッション設定
+ * @returns 有効時間（ミリ秒）。期限切れにしない場合はundefined
+ */
+export function getIdleTimeoutMs(config?: SessionConfig): number | undefined {
+  const hours = config?.idleTimeoutHours ?? DEFAULT_IDLE_TIMEOUT_HOURS;
+  return hours > 0 ? hours * 60 * 60 * 1000 : undefined;
+}
+
+/**
+ * スレッドの最終活動時刻を取得
+ * セッションの更新日時と、最後に確認したスレッド返信のうち新しい方
+ * @param key セッションキー（"channelId:threadTs"）
+ * @param session スレッドセッション
+ * @param cursor スレッドの最終確認タイムスタンプ
+ * @returns Unix時間ミリ秒
+ */
+export function getThreadLastActivity(key: string, session: ThreadSession, cursor?: string): number {
+  const activity = getSessionActivityTime(key, session);
+  return cursor ? Math.max(activity, slackTsToMillis(cursor)) : activity;
+}
+
+/**
+ * スレッドのポーリング間隔を取得
+ * @param idleMs 最終活動からの経過時間（ミリ秒）
+ * @returns ポーリング間隔（ミリ秒）。0は毎回確認する
+ */
+export function getThreadPollInterval(idleMs: number): number {
+  return THREAD_POLL_TIERS.find((tier) => idleMs < tier.idleMs)!.intervalMs;
+}
+
+/**
+ * スレッドごとのポーリング時刻の管理
+ * 最近やり取りのあったスレッドは毎回、しばらくやり取りのないスレッドは段階的に間隔を空けて確認する
+ */
+export class ThreadPollScheduler {
+  private lastPolledAt = new Map<string, number>();
+
+  /**
+   * スレッドを確認する時刻になっているか判定
+   * @param key セッションキー
+   * @param lastActivity スレッドの最終活動時刻（Unix時間ミリ秒）
+   * @param now 現在時刻（Unix時間ミリ秒）
+   * @returns 確認する場合true
+   */
+  isDue(key: string, lastActivity: number, now: number = Date.now()): boolean {
+    const lastPolled = this.lastPolledAt.get(key);
+    if (lastPolled === undefined) {
+      return true;
+    }
+    return now - lastPolled >= getThreadPollInterval(now - lastActivity);
+  }
+
+  /**
+   * スレッドを確認した時刻を記録
+   * @param key セッションキー
+   * @param now 確認した時刻（Unix時間ミリ秒）
+   */
+  markPolled(key: string, now: number = Date.now()): void {
+    this.lastPolledAt.set(key, now);
+  }
+
+  /**
+   * 終了したセッションの記録を削除
+   * @param key セッションキー
+   */
+  forget(key: string): void {
+    this.lastPolledAt.delete(key);
+  }
+}
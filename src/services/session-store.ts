@@ -0,0 +1,325 @@
+/**
+ * セッションストア
+ * スレッドセッション・ポーリングカーソル・処理済みメッセージを永続化し、
+ * Bot再起動後も会話を継続できるようにする
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageConfig, ThreadSession, UsageRecord } from '../types';
+import { logger } from '../utils/logger';
+
+/** デフォルトの保持期間（日） */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** JSONファイル書き込みの遅延時間（ミリ秒） */
+const SAVE_DEBOUNCE_MS = 1000;
+
+/**
+ * セッションストアのインターフェース
+ * 参照系は同期で扱えるよう、各実装はメモリ上またはローカルDBで状態を保持する
+ */
+export interface SessionStore {
+  /** 永続化された状態を読み込む */
+  load(): Promise<void>;
+  /** スレッドセッションを取得 */
+  getThreadSession(key: string): ThreadSession | undefined;
+  /** スレッドセッションを保存 */
+  setThreadSession(key: string, session: ThreadSession): void;
+  /** スレッドセッションを削除 */
+  deleteThreadSession(key: string): void;
+  /** 全スレッドセッションを取得 */
+  getThreadSessions(): Array<[string, ThreadSession]>;
+  /** スレッドの最終確認タイムスタンプを取得 */
+  getThreadCursor(key: string): string | undefined;
+  /** スレッドの最終確認タイムスタンプを保存 */
+  setThreadCursor(key: string, ts: string): void;
+  /** 処理済みメッセージか判定 */
+  isProcessed(ts: string): boolean;
+  /** メッセージを処理済みとして記録 */
+  markProcessed(ts: string): void;
+  /**
+   * チャンネル監視の最終タイムスタンプを取得
+   * チャンネルごとの記録がない場合は、旧形式の全チャンネル共通の記録を返す
+   */
+  getChannelCursor(channelId: string): string | undefined;
+  /** チャンネル監視の最終タイムスタンプを保存 */
+  setChannelCursor(channelId: string, ts: string): void;
+  /**
+   * 古いエントリを削除
+   * @param cutoff この時刻（Unix時間ミリ秒）より古いエントリを削除
+   */
+  prune(cutoff: number): void;
+  /** 実行の利用量を記録 */
+  recordUsage(record: UsageRecord): void;
+  /**
+   * 利用量の記録を取得
+   * @param since この時刻（Unix時間ミリ秒）以降の記録を取得
+   */
+  getUsageRecords(since: number): UsageRecord[];
+  /**
+   * 古い利用量の記録を削除
+   * 利用上限の集計に使うため、セッションとは別の期限で削除する
+   * @param cutoff この時刻（Unix時間ミリ秒）より古い記録を削除
+   */
+  pruneUsage(cutoff: number): void;
+  /** 未保存の状態を書き出して終了 */
+  close(): Promise<void>;
+}
+
+/**
+ * JSONファイルの保存形式
+ */
+interface JsonStoreData {
+  version: number;
+  /** 旧形式の全チャンネル共通の監視位置（読み込みのみ） */
+  lastTimestamp?: string;
+  channelCursors?: Record<string, string>;
+  threadSessions: Record<string, ThreadSession>;
+  threadCursors: Record<string, string>;
+  processedMessages: string[];
+  usageRecords?: UsageRecord[];
+}
+
+/**
+ * Slackタイムスタンプ（秒）をミリ秒に変換
+ * @param ts Slackタイムスタンプ
+ * @returns Unix時間ミリ秒
+ */
+export function slackTsToMillis(ts: string): number {
+  return parseFloat(ts) * 1000;
+}
+
+/**
+ * セッションの最終活動時刻を取得
+ * @param key セッションキー（"channelId:threadTs"）
+ * @param session スレッドセッション
+ * @returns Unix時間ミリ秒
+ */
+export function getSessionActivityTime(key: string, session: ThreadSession): number {
+  if (session.updatedAt !== undefined) {
+    return session.updatedAt;
+  }
+  if (session.createdAt !== undefined) {
+    return session.createdAt;
+  }
+  // 旧形式のデータはスレッドの親タイムスタンプで代用
+  return slackTsToMillis(key.split(':')[1] ?? '0');
+}
+
+/**
+ * JSONファイルを使用するセッションストア
+ * 状態はメモリ上に保持し、変更時にまとめてファイルへ書き出す
+ */
+export class JsonFileSessionStore implements SessionStore {
+  private filePath: string;
+  private threadSessions = new Map<string, ThreadSession>();
+  private threadCursors = new Map<string, string>();
+  private processedMessages = new Set<string>();
+  private usageRecords: UsageRecord[] = [];
+  private channelCursors = new Map<string, string>();
+  private lastTimestamp?: string;
+  private saveTimer?: NodeJS.Timeout;
+
+  /**
+   * コンストラクタ
+   * @param filePath 保存先ファイルパス
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info('セッションファイルが存在しないため新規作成します', { path: this.filePath });
+      return;
+    }
+
+    const content = await fs.promises.readFile(this.filePath, 'utf-8');
+    const data = JSON.parse(content) as Partial<JsonStoreData>;
+
+    this.threadSessions = new Map(Object.entries(data.threadSessions ?? {}));
+    this.threadCursors = new Map(Object.entries(data.threadCursors ?? {}));
+    this.processedMessages = new Set(data.processedMessages ?? []);
+    this.usageRecords = data.usageRecords ?? [];
+    this.channelCursors = new Map(Object.entries(data.channelCursors ?? {}));
+    this.lastTimestamp = data.lastTimestamp;
+
+    logger.info('セッションファイル読み込み完了', {
+      path: this.filePath,
+      sessionCount: this.threadSessions.size,
+      processedCount: this.processedMessages.size,
+    });
+  }
+
+  getThreadSession(key: string): ThreadSession | undefined {
+    return this.threadSessions.get(key);
+  }
+
+  setThreadSession(key: string, session: ThreadSession): void {
+    this.threadSessions.set(key, session);
+    this.scheduleSave();
+  }
+
+  deleteThreadSession(key: string): void {
+    this.threadSessions.delete(key);
+    this.threadCursors.delete(key);
+    this.scheduleSave();
+  }
+
+  getThreadSessions(): Array<[string, ThreadSession]> {
+    return Array.from(this.threadSessions.entries());
+  }
+
+  getThreadCursor(key: string): string | undefined {
+    return this.threadCursors.get(key);
+  }
+
+  setThreadCursor(key: string, ts: string): void {
+    this.threadCursors.set(key, ts);
+    this.scheduleSave();
+  }
+
+  isProcessed(ts: string): boolean {
+    return this.processedMessages.has(ts);
+  }
+
+  markProcessed(ts: string): void {
+    this.processedMessages.add(ts);
+    this.scheduleSave();
+  }
+
+  getChannelCursor(channelId: string): string | undefined {
+    return this.channelCursors.get(channelId) ?? this.lastTimestamp;
+  }
+
+  setChannelCursor(channelId: string, ts: string): void {
+    this.channelCursors.set(channelId, ts);
+    this.scheduleSave();
+  }
+
+  prune(cutoff: number): void {
+    let removedSessions = 0;
+    let removedMessages = 0;
+
+    for (const [key, session] of this.threadSessions) {
+      if (getSessionActivityTime(key, session) < cutoff) {
+        this.threadSessions.delete(key);
+        this.threadCursors.delete(key);
+        removedSessions++;
+      }
+    }
+
+    for (const ts of this.processedMessages) {
+      if (slackTsToMillis(ts) < cutoff) {
+        this.processedMessages.delete(ts);
+        removedMessages++;
+      }
+    }
+
+    if (removedSessions > 0 || removedMessages > 0) {
+      logger.info('古いセッションデータを削除', { removedSessions, removedMessages });
+      this.scheduleSave();
+    }
+  }
+
+  recordUsage(record: UsageRecord): void {
+    this.usageRecords.push(record);
+    this.scheduleSave();
+  }
+
+  getUsageRecords(since: number): UsageRecord[] {
+    return this.usageRecords.filter((record) => record.timestamp >= since);
+  }
+
+  pruneUsage(cutoff: number): void {
+    const before = this.usageRecords.length;
+    this.usageRecords = this.usageRecords.filter((record) => record.timestamp >= cutoff);
+    if (this.usageRecords.length < before) {
+      logger.info('古い利用量の記録を削除', { removedRecords: before - this.usageRecords.length });
+      this.scheduleSave();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    this.flush();
+  }
+
+  /**
+   * ファイル書き込みを予約（短時間の連続更新をまとめる）
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  /**
+   * 状態をファイルへ書き出す
+   * 一時ファイルに書いてからリネームし、書き込み途中のファイルが残らないようにする
+   */
+  private flush(): void {
+    const data: JsonStoreData = {
+      version: 1,
+      lastTimestamp: this.lastTimestamp,
+      channelCursors: Object.fromEntries(this.channelCursors),
+      threadSessions: Object.fromEntries(this.threadSessions),
+      threadCursors: Object.fromEntries(this.threadCursors),
+      processedMessages: Array.from(this.processedMessages),
+      usageRecords: this.usageRecords,
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+      fs.renameSync(tempPath, this.filePath);
+    } catch (err) {
+      logger.error('セッションファイル保存エラー', err as Error, { path: this.filePath });
+    }
+  }
+}
+
+/**
+ * 保持期間（ミリ秒）を取得
+ * @param config セッションストア設定
+ * @returns 保持期間（ミリ秒）
+ */
+export function getRetentionMs(config?: StorageConfig): number {
+  const days = config?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  return days * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * 設定に応じたセッションストアを生成
+ * @param config セッションストア設定
+ * @returns セッションストア
+ */
+export function createSessionStore(config?: StorageConfig): SessionStore {
+  const type = config?.type ?? 'json';
+
+  switch (type) {
+    case 'json': {
+      const filePath = path.resolve(config?.path ?? 'data/sessions.json');
+      logger.info('セッションストア: JSON', { path: filePath });
+      return new JsonFileSessionStore(filePath);
+    }
+    case 'sqlite': {
+      const filePath = path.resolve(config?.path ?? 'data/sessions.db');
+      logger.info('セッションストア: SQLite', { path: filePath });
+      // better-sqlite3 はネイティブモジュールのため、JSON使用時にビルド失敗で起動できなくならないよう必要になった時点で読み込む
+      const { SqliteSessionStore } = require('./sqlite-session-store') as typeof import('./sqlite-session-store');
+      return new SqliteSessionStore(filePath);
+    }
+    default:
+      throw new Error(`未対応のセッションストア種別です: ${type}`);
+  }
+}
@@ -2,14 +2,113 @@
  * Slack APIクライアント
  */
 
-import { WebClient, LogLevel } from '@slack/web-api';
+import {
+  WebClient,
+  LogLevel,
+  KnownBlock,
+  ErrorCode,
+  WebAPICallError,
+  ConversationsHistoryResponse,
+} from '@slack/web-api';
+import * as crypto from 'crypto';
+import * as http from 'http';
 import * as https from 'https';
 import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
 import { SlackConfig, SlackMessage, SlackFile } from '../types';
 import { logger } from '../utils/logger';
 import { convertMarkdownToMrkdwn } from '../utils/markdown-converter';
+import { splitMessage } from '../utils/message-splitter';
+import { renderMessageBlocks } from '../utils/block-kit-renderer';
+
+/** 1メッセージの最大文字数（Slackの上限4000文字に余裕を持たせる） */
+const DEFAULT_MAX_MESSAGE_LENGTH = 3900;
+
+/** この文字数を超える回答はファイルとして添付する */
+const DEFAULT_FILE_UPLOAD_THRESHOLD = 12000;
+
+/** ファイル添付時のプレビュー末尾に付ける案内 */
+const PREVIEW_SUFFIX = '\n\n...(全文は添付ファイルを参照)';
+
+/** 履歴取得の1ページあたりの件数 */
+const HISTORY_PAGE_SIZE = 200;
+
+/** Slack API呼び出しの最大再試行回数 */
+const MAX_API_RETRIES = 4;
+
+/** 再試行の待ち時間の初期値（ミリ秒）。再試行ごとに2倍にする */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/** 再試行の待ち時間の上限（ミリ秒） */
+const RETRY_MAX_DELAY_MS = 30000;
+
+/** 再試行するSlack APIのエラーコード（一時的なエラー） */
+const RETRYABLE_API_ERRORS = ['ratelimited', 'internal_error', 'fatal_error', 'service_unavailable', 'request_timeout'];
+
+/** 添付ファイルのダウンロードでたどるリダイレクトの最大回数 */
+const MAX_DOWNLOAD_REDIRECTS = 5;
+
+/** 添付ファイルのダウンロードで、接続・受信が止まってから中断するまでの時間（ミリ秒） */
+const DOWNLOAD_IDLE_TIMEOUT_MS = 30000;
+
+/**
+ * メッセージ投稿オプション
+ */
+export interface MessageOptions {
+  /** 本文の下にコンテキストブロックとして表示する行（mrkdwn形式。ファイル操作一覧など） */
+  context?: string[];
+}
+
+/**
+ * 回答投稿オプション
+ */
+export interface ResponseOptions extends MessageOptions {
+  /** 置き換えるメッセージのタイムスタンプ（「処理中...」メッセージなど） */
+  replaceTs?: string;
+}
+
+/**
+ * 投稿内容
+ */
+interface MessageContent {
+  /** テキスト（mrkdwn形式。通知・フォールバック用） */
+  text: string;
+  /** ブロック一覧 */
+  blocks?: KnownBlock[];
+}
+
+/**
+ * conversations.history / conversations.replies が返すメッセージ
+ */
+type ApiMessage = NonNullable<ConversationsHistoryResponse['messages']>[number] & { thread_ts?: string };
+
+/**
+ * ダウンロードしたファイル
+ */
+export interface DownloadedFile {
+  /** 保存先のファイルパス */
+  path: string;
+  /** ファイルサイズ（バイト） */
+  size: number;
+  /** 内容のSHA-256ハッシュ（16進数） */
+  sha256: string;
+}
+
+/**
+ * ダウンロードするファイルが上限サイズを超えた
+ */
+export class FileTooLargeError extends Error {
+  maxBytes: number;
+
+  /**
+   * コンストラクタ
+   * @param maxBytes 上限サイズ（バイト）
+   */
+  constructor(maxBytes: number) {
+    super(`ファイルサイズが上限（${maxBytes}バイト）を超えています`);
+    this.name = 'FileTooLargeError';
+    this.maxBytes = maxBytes;
+  }
+}
 
 /**
  * Slackクライアント
@@ -17,7 +116,16 @@ import { convertMarkdownToMrkdwn } from '../utils/markdown-converter';
 export class SlackClient {
   private client: WebClient;
   private botToken: string;
+  /** Slack Web APIのベースURL（擬似サーバー使用時のみ） */
+  private apiUrl?: URL;
   private botUserId?: string;
+  private maxMessageLength: number;
+  private fileUploadThreshold: number;
+  private blockKit: boolean;
+  /** ユーザーIDと表示名のキャッシュ */
+  private userNames = new Map<string, string>();
+  /** チャンネルIDとチャンネル名のキャッシュ */
+  private channelNames = new Map<string, string>();
 
   /**
    * コンストラクタ
@@ -25,11 +133,30 @@ export class SlackClient {
    */
   constructor(config: SlackConfig) {
     this.botToken = config.botToken;
+    this.maxMessageLength = config.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+    this.fileUploadThreshold = config.fileUploadThreshold ?? DEFAULT_FILE_UPLOAD_THRESHOLD;
+    this.blockKit = config.blockKit ?? true;
+    // 再試行はcallWithRetryで行う（レート制限時にライブラリ内で長時間待機しないようにする）
+    this.apiUrl = config.apiUrl ? new URL(config.apiUrl) : undefined;
     this.client = new WebClient(config.botToken, {
+      slackApiUrl: config.apiUrl,
       logLevel: LogLevel.ERROR,
+      retryConfig: { retries: 0 },
+      rejectRateLimitedCalls: true,
     });
   }
 
+  /**
+   * 投稿形式の設定を更新（設定の再読み込み時）
+   * Bot Tokenの変更は再起動まで反映されない
+   * @param config Slack設定
+   */
+  updateSettings(config: SlackConfig): void {
+    this.maxMessageLength = config.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+    this.fileUploadThreshold = config.fileUploadThreshold ?? DEFAULT_FILE_UPLOAD_THRESHOLD;
+    this.blockKit = config.blockKit ?? true;
+  }
+
   /**
    * 接続テスト
    * @returns Bot情報
@@ -37,7 +164,7 @@ export class SlackClient {
   async testConnection(): Promise<{ ok: boolean; botId?: string; botName?: string; userId?: string }> {
     logger.info('Slack接続テスト開始');
 
-    const result = await this.client.auth.test();
+    const result = await this.callWithRetry('auth.test', () => this.client.auth.test());
 
     this.botUserId = result.user_id;
 
@@ -66,65 +193,71 @@ export class SlackClient {
 
   /**
    * チャンネル履歴を取得
+   * 複数ページにわたる場合はすべてのページを取得する
    * @param channelId チャンネルID
-   * @param oldest 取得開始時刻（Unix timestamp）
-   * @returns メッセージ一覧
+   * @param oldest 取得開始時刻（Unix timestamp、この時刻のメッセージは含まない）
+   * @returns メッセージ一覧（古い順）
    */
   async getChannelHistory(channelId: string, oldest?: string): Promise<SlackMessage[]> {
     logger.info('チャンネル履歴取得', { channelId, oldest });
 
-    const result = await this.client.conversations.history({
-      channel: channelId,
-      oldest,
-      limit: 100,
+    const messages = await this.fetchAllPages(channelId, async (cursor) => {
+      const result = await this.callWithRetry('conversations.history', () =>
+        this.client.conversations.history({ channel: channelId, oldest, limit: HISTORY_PAGE_SIZE, cursor })
+      );
+      return { messages: result.messages ?? [], nextCursor: result.response_metadata?.next_cursor };
     });
 
-    logger.info('チャンネル履歴取得完了', {
-      channelId,
-      messageCount: result.messages?.length ?? 0,
-    });
-
-    return (result.messages ?? []).map((msg) => ({
-      ts: msg.ts ?? '',
-      channel: channelId,
-      user: msg.user,
-      text: msg.text,
-      files: msg.files as SlackFile[] | undefined,
-      thread_ts: (msg as { thread_ts?: string }).thread_ts,
-    }));
+    logger.info('チャンネル履歴取得完了', { channelId, messageCount: messages.length });
+    return messages;
   }
 
   /**
    * スレッドの返信を取得
+   * 複数ページにわたる場合はすべてのページを取得する
    * @param channelId チャンネルID
    * @param threadTs スレッドの親タイムスタンプ
-   * @param oldest 取得開始時刻（Unix timestamp）
-   * @returns メッセージ一覧
+   * @param oldest 取得開始時刻（Unix timestamp、この時刻のメッセージは含まない）
+   * @returns メッセージ一覧（古い順。親メッセージを含む場合がある）
    */
   async getThreadReplies(channelId: string, threadTs: string, oldest?: string): Promise<SlackMessage[]> {
     logger.info('スレッド返信取得', { channelId, threadTs, oldest });
 
-    const result = await this.client.conversations.replies({
-      channel: channelId,
-      ts: threadTs,
-      oldest,
-      limit: 100,
+    const messages = await this.fetchAllPages(channelId, async (cursor) => {
+      const result = await this.callWithRetry('conversations.replies', () =>
+        this.client.conversations.replies({ channel: channelId, ts: threadTs, oldest, limit: HISTORY_PAGE_SIZE, cursor })
+      );
+      return { messages: result.messages ?? [], nextCursor: result.response_metadata?.next_cursor };
     });
 
-    logger.info('スレッド返信取得完了', {
-      channelId,
-      threadTs,
-      messageCount: result.messages?.length ?? 0,
-    });
+    logger.info('スレッド返信取得完了', { channelId, threadTs, messageCount: messages.length });
+    return messages;
+  }
+
+  /**
+   * カーソルをたどって全ページのメッセージを取得
+   * @param channelId チャンネルID
+   * @param fetchPage 1ページ分を取得する関数
+   * @returns メッセージ一覧（重複を除いて古い順に並べたもの）
+   */
+  private async fetchAllPages(
+    channelId: string,
+    fetchPage: (cursor: string | undefined) => Promise<{ messages: ApiMessage[]; nextCursor?: string }>
+  ): Promise<SlackMessage[]> {
+    const messages = new Map<string, SlackMessage>();
+    let cursor: string | undefined;
+
+    do {
+      const page = await fetchPage(cursor);
+      for (const msg of page.messages) {
+        if (msg.ts) {
+          messages.set(msg.ts, toSlackMessage(channelId, msg));
+        }
+      }
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
 
-    return (result.messages ?? []).map((msg) => ({
-      ts: msg.ts ?? '',
-      channel: channelId,
-      user: msg.user,
-      text: msg.text,
-      files: msg.files as SlackFile[] | undefined,
-      thread_ts: (msg as { thread_ts?: string }).thread_ts,
-    }));
+    return Array.from(messages.values()).sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
   }
 
   /**
@@ -132,74 +265,569 @@ export class SlackClient {
    * @param channelId チャンネルID
    * @param text メッセージテキスト
    * @param threadTs スレッドの親タイムスタンプ
+   * @param options 投稿オプション
+   * @returns 投稿したメッセージのタイムスタンプ
    */
-  async postMessage(channelId: string, text: string, threadTs?: string): Promise<void> {
+  async postMessage(
+    channelId: string,
+    text: string,
+    threadTs?: string,
+    options: MessageOptions = {}
+  ): Promise<string | undefined> {
     logger.info('メッセージ投稿', {
       channelId,
       threadTs,
       textLength: text.length,
     });
 
+    const result = await this.sendWithTextFallback('chat.postMessage', this.buildContent(text, options), (content) =>
+      this.callWithRetry('chat.postMessage', () =>
+        this.client.chat.postMessage({
+          channel: channelId,
+          thread_ts: threadTs,
+          ...content,
+        })
+      )
+    );
+
+    logger.info('メッセージ投稿完了', { channelId, threadTs, ts: result.ts });
+
+    return result.ts;
+  }
+
+  /**
+   * ブロックを指定してメッセージを投稿（ボタン付きメッセージなど）
+   * @param channelId チャンネルID
+   * @param text 通知・フォールバック用テキスト（mrkdwn形式）
+   * @param blocks ブロック一覧
+   * @param threadTs スレッドの親タイムスタンプ
+   * @returns 投稿したメッセージのタイムスタンプ
+   */
+  async postBlocks(channelId: string, text: string, blocks: KnownBlock[], threadTs?: string): Promise<string | undefined> {
+    logger.info('ブロックメッセージ投稿', { channelId, threadTs, blockCount: blocks.length });
+
+    const result = await this.callWithRetry('chat.postMessage', () =>
+      this.client.chat.postMessage({
+        channel: channelId,
+        thread_ts: threadTs,
+        text,
+        blocks,
+      })
+    );
+
+    return result.ts;
+  }
+
+  /**
+   * 投稿済みメッセージを更新
+   * @param channelId チャンネルID
+   * @param ts 更新するメッセージのタイムスタンプ
+   * @param text メッセージテキスト
+   * @param options 投稿オプション
+   */
+  async updateMessage(channelId: string, ts: string, text: string, options: MessageOptions = {}): Promise<void> {
+    logger.debug('メッセージ更新', {
+      channelId,
+      ts,
+      textLength: text.length,
+    });
+
+    await this.sendWithTextFallback('chat.update', this.buildContent(text, options), (content) =>
+      this.callWithRetry('chat.update', () =>
+        this.client.chat.update({
+          channel: channelId,
+          ts,
+          text: content.text,
+          // ブロックを省略すると更新前のブロックが残るため、ブロックなしの場合は空配列で消去する
+          blocks: content.blocks ?? [],
+        })
+      )
+    );
+  }
+
+  /**
+   * ブロック付きで送信し、Slackがブロックを受け付けない場合（invalid_blocks）はテキストのみで1度だけ再送
+   * @param method APIメソッド名（ログ用）
+   * @param content 投稿内容
+   * @param send 投稿内容を送信する関数
+   * @returns APIの結果
+   * @throws invalid_blocks以外のエラー、またはテキストのみでの再送に失敗した場合
+   */
+  private async sendWithTextFallback<T>(
+    method: string,
+    content: MessageContent,
+    send: (content: MessageContent) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await send(content);
+    } catch (err) {
+      if (!content.blocks || !isPlatformError(err, 'invalid_blocks')) {
+        throw err;
+      }
+      logger.warn('ブロックが受け付けられなかったためテキストのみで再送', { method, error: (err as Error).message });
+      return send({ text: content.text });
+    }
+  }
+
+  /**
+   * Slack APIを呼び出し、レート制限・一時的なエラーの場合は待機して再試行
+   * @param method APIメソッド名（ログ用）
+   * @param call API呼び出し
+   * @returns APIの結果
+   * @throws 再試行しないエラー、または再試行回数を超えた場合
+   */
+  private async callWithRetry<T>(method: string, call: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call();
+      } catch (err) {
+        const delayMs = getRetryDelay(err, attempt);
+        if (delayMs === undefined || attempt >= MAX_API_RETRIES) {
+          throw err;
+        }
+        logger.warn('Slack APIの呼び出しを再試行', {
+          method,
+          attempt: attempt + 1,
+          delayMs,
+          error: (err as Error).message,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * 投稿内容（テキストとブロック）を生成
+   * テキストは通知やブロック非対応クライアント向けのフォールバックとしてmrkdwn形式で常に含める
+   * @param text メッセージテキスト（Markdown）
+   * @param options 投稿オプション
+   * @returns 投稿内容
+   */
+  private buildContent(text: string, options: MessageOptions): MessageContent {
+    const context = options.context ?? [];
+
     // MarkdownをSlackのmrkdwn形式に変換
-    const mrkdwnText = convertMarkdownToMrkdwn(text);
+    const mrkdwnText = [convertMarkdownToMrkdwn(text), ...(context.length > 0 ? ['', ...context] : [])].join('\n');
+
+    if (!this.blockKit) {
+      return { text: mrkdwnText };
+    }
+    return { text: mrkdwnText, blocks: renderMessageBlocks(text, context) };
+  }
+
+  /**
+   * 回答を投稿
+   * 長文は段落・コードブロックの境界で複数メッセージに分割し、
+   * ファイル添付の閾値を超える場合は先頭部分のみ投稿して全文をMarkdownファイルで添付する
+   * @param channelId チャンネルID
+   * @param text 回答テキスト（Markdown）
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param options 投稿オプション（コンテキストは最後のメッセージに表示する）
+   */
+  async postResponse(channelId: string, text: string, threadTs: string, options: ResponseOptions = {}): Promise<void> {
+    const { replaceTs, context } = options;
 
-    await this.client.chat.postMessage({
-      channel: channelId,
-      text: mrkdwnText,
-      thread_ts: threadTs,
+    if (text.length > this.fileUploadThreshold) {
+      const preview = splitMessage(text, this.maxMessageLength - PREVIEW_SUFFIX.length)[0] + PREVIEW_SUFFIX;
+      await this.postOrReplace(channelId, preview, threadTs, replaceTs, { context });
+      await this.uploadTextFile(channelId, text, 'response.md', threadTs, '回答全文');
+      return;
+    }
+
+    const chunks = splitMessage(text, this.maxMessageLength);
+    const lastIndex = chunks.length - 1;
+    await this.postOrReplace(channelId, chunks[0], threadTs, replaceTs, lastIndex === 0 ? { context } : {});
+    for (let i = 1; i <= lastIndex; i++) {
+      await this.postMessage(channelId, chunks[i], threadTs, i === lastIndex ? { context } : {});
+    }
+  }
+
+  /**
+   * メッセージを置き換え、置き換え対象がない・失敗した場合は新規投稿
+   * @param channelId チャンネルID
+   * @param text メッセージテキスト
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param replaceTs 置き換えるメッセージのタイムスタンプ
+   * @param options 投稿オプション
+   */
+  private async postOrReplace(
+    channelId: string,
+    text: string,
+    threadTs: string,
+    replaceTs: string | undefined,
+    options: MessageOptions
+  ): Promise<void> {
+    if (replaceTs) {
+      try {
+        await this.updateMessage(channelId, replaceTs, text, options);
+        return;
+      } catch (err) {
+        logger.error('メッセージの置き換えに失敗したため新規投稿します', err as Error, { channelId, replaceTs });
+      }
+    }
+    await this.postMessage(channelId, text, threadTs, options);
+  }
+
+  /**
+   * テキストをファイルとしてアップロード
+   * @param channelId チャンネルID
+   * @param content ファイル内容
+   * @param filename ファイル名
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param title ファイルのタイトル
+   */
+  async uploadTextFile(
+    channelId: string,
+    content: string,
+    filename: string,
+    threadTs: string,
+    title?: string
+  ): Promise<void> {
+    logger.info('ファイルアップロード', {
+      channelId,
+      threadTs,
+      filename,
+      contentLength: content.length,
     });
 
-    logger.info('メッセージ投稿完了', { channelId, threadTs });
+    await this.callWithRetry('files.uploadV2', () =>
+      this.client.files.uploadV2({
+        channel_id: channelId,
+        thread_ts: threadTs,
+        content,
+        filename,
+        title: title ?? filename,
+      })
+    );
+
+    logger.info('ファイルアップロード完了', { channelId, threadTs, filename });
   }
 
   /**
-   * 画像ファイルをダウンロード
+   * ユーザーグループのメンバーを取得
+   * @param userGroupId ユーザーグループID
+   * @returns メンバーのユーザーID一覧
+   */
+  async getUserGroupMembers(userGroupId: string): Promise<string[]> {
+    const result = await this.callWithRetry('usergroups.users.list', () =>
+      this.client.usergroups.users.list({
+        usergroup: userGroupId,
+      })
+    );
+
+    return result.users ?? [];
+  }
+
+  /**
+   * ユーザーの表示名を取得（users:read スコープが必要）
+   * 表示名が未設定の場合は氏名、ユーザー名の順に使う
+   * @param userId ユーザーID
+   * @returns 表示名
+   */
+  async getUserName(userId: string): Promise<string> {
+    const cached = this.userNames.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.callWithRetry('users.info', () => this.client.users.info({ user: userId }));
+    const user = result.user;
+    const name = user?.profile?.display_name || user?.real_name || user?.name || userId;
+    this.userNames.set(userId, name);
+    return name;
+  }
+
+  /**
+   * チャンネル名を取得（channels:read / groups:read スコープが必要）
+   * @param channelId チャンネルID
+   * @returns チャンネル名
+   */
+  async getChannelName(channelId: string): Promise<string> {
+    const cached = this.channelNames.get(channelId);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.callWithRetry('conversations.info', () =>
+      this.client.conversations.info({ channel: channelId })
+    );
+    const name = result.channel?.name || channelId;
+    this.channelNames.set(channelId, name);
+    return name;
+  }
+
+  /**
+   * メッセージに付いているリアクションを取得
+   * @param channelId チャンネルID
+   * @param ts メッセージのタイムスタンプ
+   * @returns リアクション名とリアクションしたユーザーID一覧
+   */
+  async getReactions(channelId: string, ts: string): Promise<Array<{ name: string; users: string[] }>> {
+    const result = await this.callWithRetry('reactions.get', () =>
+      this.client.reactions.get({
+        channel: channelId,
+        timestamp: ts,
+        full: true,
+      })
+    );
+
+    return (result.message?.reactions ?? [])
+      .filter((reaction) => reaction.name)
+      .map((reaction) => ({ name: reaction.name!, users: reaction.users ?? [] }));
+  }
+
+  /**
+   * メッセージにリアクションを追加
+   * 既に追加済みの場合は何もしない
+   * @param channelId チャンネルID
+   * @param ts メッセージのタイムスタンプ
+   * @param name リアクション名（コロンなし）
+   */
+  async addReaction(channelId: string, ts: string, name: string): Promise<void> {
+    try {
+      await this.callWithRetry('reactions.add', () =>
+        this.client.reactions.add({ channel: channelId, timestamp: ts, name })
+      );
+    } catch (err) {
+      if (!isPlatformError(err, 'already_reacted')) {
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * メッセージからBotのリアクションを削除
+   * 付いていない場合は何もしない
+   * @param channelId チャンネルID
+   * @param ts メッセージのタイムスタンプ
+   * @param name リアクション名（コロンなし）
+   */
+  async removeReaction(channelId: string, ts: string, name: string): Promise<void> {
+    try {
+      await this.callWithRetry('reactions.remove', () =>
+        this.client.reactions.remove({ channel: channelId, timestamp: ts, name })
+      );
+    } catch (err) {
+      if (!isPlatformError(err, 'no_reaction')) {
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * 添付ファイルをダウンロード
+   * リダイレクトをたどり、受信中に上限サイズを超えた場合は中断して書きかけのファイルを削除する
    * @param file Slackファイル情報
-   * @returns ダウンロードしたファイルのパス
+   * @param filePath 保存先のファイルパス（既に存在する場合はエラー）
+   * @param maxBytes 上限サイズ（バイト）
+   * @param signal キャンセル用シグナル（中断時は書きかけのファイルを削除する）
+   * @returns ダウンロードしたファイルの情報
+   * @throws {FileTooLargeError} 上限サイズを超えた場合
+   * @throws 接続・受信が一定時間止まった場合、またはキャンセルされた場合
    */
-  async downloadImage(file: SlackFile): Promise<string> {
+  async downloadFile(
+    file: SlackFile,
+    filePath: string,
+    maxBytes: number,
+    signal?: AbortSignal
+  ): Promise<DownloadedFile> {
     if (!file.url_private) {
       throw new Error('ファイルURLが存在しません');
     }
 
-    logger.info('画像ダウンロード開始', {
+    logger.info('ファイルダウンロード開始', {
       fileId: file.id,
       fileName: file.name,
       mimetype: file.mimetype,
+      size: file.size,
     });
 
-    const tempDir = os.tmpdir();
-    const fileName = file.name || `${file.id}.png`;
-    const filePath = path.join(tempDir, `slack-${Date.now()}-${fileName}`);
+    let url = new URL(file.url_private);
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.requestFile(url, signal);
+      const status = response.statusCode ?? 0;
 
-    return new Promise((resolve, reject) => {
-      const fileStream = fs.createWriteStream(filePath);
-
-      https.get(
-        file.url_private!,
-        {
-          headers: {
-            Authorization: `Bearer ${this.botToken}`,
-          },
-        },
-        (response) => {
-          if (response.statusCode !== 200) {
-            reject(new Error(`ダウンロード失敗: ${response.statusCode}`));
-            return;
-          }
-
-          response.pipe(fileStream);
-
-          fileStream.on('finish', () => {
-            fileStream.close();
-            logger.info('画像ダウンロード完了', { filePath });
-            resolve(filePath);
-          });
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_DOWNLOAD_REDIRECTS) {
+          throw new Error(`リダイレクトが多すぎます（${MAX_DOWNLOAD_REDIRECTS}回）`);
         }
-      ).on('error', (err) => {
-        fs.unlink(filePath, () => {});
-        reject(err);
+        url = new URL(response.headers.location, url);
+        continue;
+      }
+
+      if (status !== 200) {
+        response.resume();
+        throw new Error(`ダウンロード失敗: ${status}`);
+      }
+
+      const contentLength = Number(response.headers['content-length']);
+      if (contentLength > maxBytes) {
+        response.destroy();
+        throw new FileTooLargeError(maxBytes);
+      }
+
+      const downloaded = await saveResponse(response, filePath, maxBytes, signal);
+      logger.info('ファイルダウンロード完了', { filePath, size: downloaded.size });
+      return downloaded;
+    }
+  }
+
+  /**
+   * ファイルのダウンロードリクエストを送信
+   * Bot Tokenはslack.comのホスト（擬似サーバー使用時はそのホスト）にのみ送る（リダイレクト先の外部ホストに漏らさないため）
+   * 接続・受信が DOWNLOAD_IDLE_TIMEOUT_MS の間止まった場合は中断する
+   * @param url ダウンロードURL
+   * @param signal キャンセル用シグナル
+   * @returns レスポンス
+   */
+  private requestFile(url: URL, signal?: AbortSignal): Promise<http.IncomingMessage> {
+    const isApiHost = url.origin === this.apiUrl?.origin;
+    if (url.protocol !== 'https:' && !isApiHost) {
+      return Promise.reject(new Error(`HTTPS以外のURLからはダウンロードできません: ${url.origin}`));
+    }
+    const trusted = isApiHost || url.hostname === 'slack.com' || url.hostname.endsWith('.slack.com');
+    const headers: http.OutgoingHttpHeaders = trusted ? { Authorization: `Bearer ${this.botToken}` } : {};
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('ダウンロードがキャンセルされました'));
+        return;
+      }
+      const get = url.protocol === 'http:' ? http.get : https.get;
+      const req = get(url, { headers }, resolve);
+      // ソケットの無通信タイムアウトは接続中・レスポンス受信中の両方に適用される
+      req.setTimeout(DOWNLOAD_IDLE_TIMEOUT_MS, () => {
+        req.destroy(new Error(`ダウンロードが${DOWNLOAD_IDLE_TIMEOUT_MS / 1000}秒間応答しないため中断しました`));
       });
+      const onAbort = (): void => {
+        req.destroy(new Error('ダウンロードがキャンセルされました'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      req.on('close', () => signal?.removeEventListener('abort', onAbort));
+      req.on('error', reject);
     });
   }
 }
+
+/**
+ * Slack APIの再試行までの待ち時間を取得
+ * レート制限はRetry-Afterの秒数だけ待ち、5xx・通信エラー・一時的なエラーは指数バックオフで待つ
+ * @param err 発生したエラー
+ * @param attempt これまでの再試行回数
+ * @returns 待ち時間（ミリ秒）。再試行しないエラーの場合はundefined
+ */
+function getRetryDelay(err: unknown, attempt: number): number | undefined {
+  const error = err as Partial<WebAPICallError> & { statusCode?: number; retryAfter?: number; data?: { error?: string } };
+  const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) + Math.floor(Math.random() * 250);
+
+  switch (error.code) {
+    case ErrorCode.RateLimitedError:
+      return (error.retryAfter ?? 1) * 1000;
+    case ErrorCode.RequestError:
+      return backoff;
+    case ErrorCode.HTTPError:
+      return (error.statusCode ?? 0) >= 500 ? backoff : undefined;
+    case ErrorCode.PlatformError:
+      return RETRYABLE_API_ERRORS.includes(error.data?.error ?? '') ? backoff : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Slack APIが指定したエラーを返したか判定
+ * @param err 発生したエラー
+ * @param code エラーコード（例: already_reacted）
+ * @returns 指定したエラーの場合true
+ */
+function isPlatformError(err: unknown, code: string): boolean {
+  const error = err as Partial<WebAPICallError> & { data?: { error?: string } };
+  return error.code === ErrorCode.PlatformError && error.data?.error === code;
+}
+
+/**
+ * APIのメッセージをSlackメッセージに変換
+ * @param channelId チャンネルID
+ * @param msg APIのメッセージ
+ * @returns Slackメッセージ
+ */
+function toSlackMessage(channelId: string, msg: ApiMessage): SlackMessage {
+  return {
+    ts: msg.ts ?? '',
+    channel: channelId,
+    user: msg.user,
+    text: msg.text,
+    files: msg.files as SlackFile[] | undefined,
+    thread_ts: msg.thread_ts,
+    reactions: msg.reactions
+      ?.filter((reaction) => reaction.name)
+      .map((reaction) => ({ name: reaction.name!, users: reaction.users ?? [] })),
+  };
+}
+
+/**
+ * レスポンスボディをファイルに保存
+ * @param response レスポンス
+ * @param filePath 保存先のファイルパス
+ * @param maxBytes 上限サイズ（バイト）
+ * @param signal キャンセル用シグナル
+ * @returns 保存したファイルの情報
+ * @throws {FileTooLargeError} 上限サイズを超えた場合
+ * @throws 受信が中断された場合、またはキャンセルされた場合
+ */
+function saveResponse(
+  response: http.IncomingMessage,
+  filePath: string,
+  maxBytes: number,
+  signal?: AbortSignal
+): Promise<DownloadedFile> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    const fileStream = fs.createWriteStream(filePath, { flags: 'wx' });
+    let size = 0;
+    let failed = false;
+
+    const fail = (err: Error): void => {
+      if (failed) {
+        return;
+      }
+      failed = true;
+      signal?.removeEventListener('abort', onAbort);
+      response.destroy();
+      fileStream.destroy();
+      fs.unlink(filePath, () => {});
+      reject(err);
+    };
+    const onAbort = (): void => fail(new Error('ダウンロードがキャンセルされました'));
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    response.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        fail(new FileTooLargeError(maxBytes));
+        return;
+      }
+      hash.update(chunk);
+    });
+    response.on('error', fail);
+    response.on('close', () => {
+      if (!response.complete) {
+        fail(new Error('ダウンロードが中断されました'));
+      }
+    });
+    fileStream.on('error', fail);
+    fileStream.on('finish', () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (!failed) {
+        resolve({ path: filePath, size, sha256: hash.digest('hex') });
+      }
+    });
+
+    response.pipe(fileStream);
+  });
+}
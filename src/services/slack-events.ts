@@ -0,0 +1,120 @@
+/**
+ * Slackイベント受信の共通定義
+ * Socket Mode / Events API の両受信方式から利用する
+ */
+
+import { SlackFile, SlackMessage } from '../types';
+
+/**
+ * Slackイベント（event_callback の event フィールド）
+ */
+export interface SlackEvent {
+  /** イベント種別（message, reaction_added など） */
+  type: string;
+  /** サブタイプ（message_changed など） */
+  subtype?: string;
+  /** チャンネルID */
+  channel?: string;
+  /** ユーザーID */
+  user?: string;
+  /** Bot ID（Botによる投稿の場合） */
+  bot_id?: string;
+  /** メッセージテキスト */
+  text?: string;
+  /** タイムスタンプ */
+  ts?: string;
+  /** スレッドの親タイムスタンプ */
+  thread_ts?: string;
+  /** 添付ファイル */
+  files?: SlackFile[];
+  /** リアクション名（reaction_addedの場合） */
+  reaction?: string;
+  /** リアクション対象（reaction_addedの場合） */
+  item?: { type: string; channel?: string; ts?: string };
+  /** ボタンのアクションID（block_actionの場合） */
+  action_id?: string;
+  /** ボタンの値（block_actionの場合） */
+  value?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * インタラクション（ボタン操作など）のペイロード
+ */
+export interface SlackInteractionPayload {
+  /** 種別（block_actions など） */
+  type: string;
+  /** 操作したユーザー */
+  user?: { id: string };
+  /** 操作されたメッセージのチャンネル */
+  channel?: { id: string };
+  /** 操作されたメッセージ */
+  message?: { ts: string };
+  /** 実行されたアクション */
+  actions?: Array<{ action_id: string; value?: string }>;
+}
+
+/**
+ * イベントを受け取るハンドラ
+ */
+export type SlackEventHandler = (event: SlackEvent) => Promise<void>;
+
+/**
+ * イベント受信機のインターフェース
+ */
+export interface SlackEventReceiver {
+  /** 受信を開始 */
+  start(): Promise<void>;
+  /** 受信を停止 */
+  stop(): Promise<void>;
+}
+
+/**
+ * 処理対象とするmessageイベントのサブタイプ
+ * 編集・削除・参加通知などは対象外
+ */
+const HANDLED_MESSAGE_SUBTYPES = new Set<string | undefined>([undefined, 'file_share', 'thread_broadcast']);
+
+/**
+ * messageイベントをSlackMessageに変換
+ * @param event Slackイベント
+ * @returns Slackメッセージ。処理対象外のイベントの場合はnull
+ */
+export function toSlackMessage(event: SlackEvent): SlackMessage | null {
+  if (event.type !== 'message' || !HANDLED_MESSAGE_SUBTYPES.has(event.subtype)) {
+    return null;
+  }
+  if (!event.channel || !event.ts) {
+    return null;
+  }
+
+  return {
+    ts: event.ts,
+    channel: event.channel,
+    user: event.user,
+    text: event.text,
+    files: event.files,
+    thread_ts: event.thread_ts,
+  };
+}
+
+/**
+ * ボタン操作のペイロードをイベントに変換
+ * メッセージ受信と同じハンドラで処理できるよう、アクションごとに block_action イベントとして扱う
+ * @param payload インタラクションのペイロード
+ * @returns block_action イベント一覧（ボタン操作以外の場合は空）
+ */
+export function toActionEvents(payload: SlackInteractionPayload): SlackEvent[] {
+  if (payload.type !== 'block_actions') {
+    return [];
+  }
+
+  return (payload.actions ?? []).map((action) => ({
+    type: 'block_action',
+    user: payload.user?.id,
+    channel: payload.channel?.id,
+    ts: payload.message?.ts,
+    action_id: action.action_id,
+    value: action.value,
+  }));
+}
@@ -0,0 +1,232 @@
+/**
+ * Socket Mode受信機
+ * WebSocketでSlackに接続し、イベントをリアルタイムに受信する
+ */
+
+import { WebClient, LogLevel } from '@slack/web-api';
+import WebSocket from 'ws';
+import { SlackConfig } from '../types';
+import { logger } from '../utils/logger';
+import {
+  SlackEvent,
+  SlackEventHandler,
+  SlackEventReceiver,
+  SlackInteractionPayload,
+  toActionEvents,
+} from './slack-events';
+
+/** helloメッセージの待機時間（ミリ秒） */
+const HELLO_TIMEOUT_MS = 10000;
+
+/** 再接続間隔の上限（ミリ秒） */
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Socket Modeで受信するメッセージ（エンベロープ）
+ */
+interface SocketModeEnvelope {
+  /** メッセージ種別（hello, events_api, interactive, disconnect など） */
+  type: string;
+  /** 応答（ack）用のID */
+  envelope_id?: string;
+  /** ペイロード（events_apiの場合はイベント、interactiveの場合はインタラクションのペイロード） */
+  payload?: { event?: SlackEvent } & Partial<SlackInteractionPayload>;
+  /** 切断理由（disconnectの場合） */
+  reason?: string;
+}
+
+/**
+ * Socket Mode受信機
+ */
+export class SocketModeReceiver implements SlackEventReceiver {
+  private appToken?: string;
+  private connectionUrl?: string;
+  private handler: SlackEventHandler;
+  private socket?: WebSocket;
+  private stopped = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  /**
+   * コンストラクタ
+   * @param config Slack設定
+   * @param handler イベントハンドラ
+   */
+  constructor(config: SlackConfig, handler: SlackEventHandler) {
+    this.appToken = config.appToken;
+    this.connectionUrl = config.socketModeUrl;
+    this.handler = handler;
+  }
+
+  /**
+   * 受信を開始
+   * 最初の接続に失敗した場合は例外を投げる（呼び出し側でポーリングに切り替えるため）
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.connect();
+    logger.info('Socket Mode接続完了');
+  }
+
+  /**
+   * 受信を停止
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  /**
+   * WebSocket接続URLを取得
+   * @returns 接続URL
+   */
+  private async openConnection(): Promise<string> {
+    if (this.connectionUrl) {
+      return this.connectionUrl;
+    }
+    if (!this.appToken) {
+      throw new Error('slack.appToken が設定されていません');
+    }
+
+    const client = new WebClient(this.appToken, { logLevel: LogLevel.ERROR });
+    const result = await client.apps.connections.open();
+    if (!result.ok || !result.url) {
+      throw new Error(`Socket Mode接続URLの取得に失敗しました: ${result.error}`);
+    }
+    return result.url;
+  }
+
+  /**
+   * WebSocketに接続し、helloメッセージを受信するまで待機
+   */
+  private async connect(): Promise<void> {
+    const url = await this.openConnection();
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      let ready = false;
+
+      const helloTimer = setTimeout(() => {
+        if (!ready) {
+          socket.terminate();
+          reject(new Error('Socket Modeのhelloメッセージを受信できませんでした'));
+        }
+      }, HELLO_TIMEOUT_MS);
+
+      socket.on('message', (data) => {
+        let envelope: SocketModeEnvelope;
+        try {
+          envelope = JSON.parse(data.toString()) as SocketModeEnvelope;
+        } catch {
+          logger.warn('Socket Modeメッセージのパースに失敗しました');
+          return;
+        }
+
+        if (envelope.type === 'hello') {
+          ready = true;
+          clearTimeout(helloTimer);
+          this.socket = socket;
+          this.reconnectAttempts = 0;
+          resolve();
+          return;
+        }
+
+        this.handleEnvelope(socket, envelope);
+      });
+
+      socket.on('close', (code) => {
+        clearTimeout(helloTimer);
+        if (!ready) {
+          reject(new Error(`Socket Mode接続が切断されました: ${code}`));
+          return;
+        }
+        if (this.stopped) {
+          return;
+        }
+        logger.warn('Socket Mode接続切断', { code });
+        if (this.socket === socket) {
+          this.socket = undefined;
+        }
+        this.scheduleReconnect();
+      });
+
+      socket.on('error', (err) => {
+        logger.error('Socket Modeエラー', err);
+      });
+    });
+  }
+
+  /**
+   * 受信したエンベロープを処理
+   * @param socket 受信したWebSocket
+   * @param envelope エンベロープ
+   */
+  private handleEnvelope(socket: WebSocket, envelope: SocketModeEnvelope): void {
+    // 受信確認を即座に返す（3秒以内に返さないと再送される）
+    if (envelope.envelope_id) {
+      socket.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+    }
+
+    switch (envelope.type) {
+      case 'events_api': {
+        const event = envelope.payload?.event;
+        if (event) {
+          this.dispatch(event);
+        }
+        break;
+      }
+      case 'interactive':
+        if (envelope.payload?.type) {
+          toActionEvents(envelope.payload as SlackInteractionPayload).forEach((event) => this.dispatch(event));
+        }
+        break;
+      case 'disconnect':
+        // 接続の更新要求。closeイベントで再接続する
+        logger.info('Socket Mode切断要求', { reason: envelope.reason });
+        socket.close();
+        break;
+      default:
+        logger.debug('未対応のSocket Modeメッセージ', { type: envelope.type });
+    }
+  }
+
+  /**
+   * イベントをハンドラに渡す
+   * @param event Slackイベント
+   */
+  private dispatch(event: SlackEvent): void {
+    this.handler(event).catch((err) => {
+      logger.error('イベント処理エラー', err as Error, { eventType: event.type });
+    });
+  }
+
+  /**
+   * 指数バックオフで再接続を予約
+   */
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+
+    logger.info('Socket Mode再接続予約', { delay, attempt: this.reconnectAttempts });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      try {
+        await this.connect();
+        logger.info('Socket Mode再接続完了');
+      } catch (err) {
+        logger.error('Socket Mode再接続エラー', err as Error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+}
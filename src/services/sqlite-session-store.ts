@@ -0,0 +1,255 @@
+/**
+ * SQLiteを使用するセッションストア
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { ThreadSession, UsageRecord } from '../types';
+import { logger } from '../utils/logger';
+import type { SessionStore } from './session-store';
+
+/**
+ * テーブル定義
+ * セッションはJSON文字列として保存し、フィールド追加時もスキーマ変更を不要にする
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS thread_sessions (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS channel_cursors (
+    channel_id TEXT PRIMARY KEY,
+    ts TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS thread_cursors (
+    key TEXT PRIMARY KEY,
+    ts TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS processed_messages (
+    ts TEXT PRIMARY KEY,
+    ts_num REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_processed_messages_ts_num ON processed_messages (ts_num);
+  CREATE TABLE IF NOT EXISTS usage_records (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    user_id TEXT,
+    project_name TEXT NOT NULL,
+    channel_id TEXT NOT NULL,
+    cost_usd REAL NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    cache_read_tokens INTEGER NOT NULL,
+    cache_creation_tokens INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_usage_records_timestamp ON usage_records (timestamp);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/**
+ * SQLiteセッションストア
+ * better-sqlite3は同期APIのため、参照系はDBを直接読む
+ */
+export class SqliteSessionStore implements SessionStore {
+  private filePath: string;
+  private db?: Database.Database;
+
+  /**
+   * コンストラクタ
+   * @param filePath データベースファイルパス
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    const sessionCount = this.getDb().prepare('SELECT COUNT(*) AS count FROM thread_sessions').get() as {
+      count: number;
+    };
+
+    logger.info('セッションDB読み込み完了', {
+      path: this.filePath,
+      sessionCount: sessionCount.count,
+    });
+  }
+
+  getThreadSession(key: string): ThreadSession | undefined {
+    const row = this.getDb().prepare('SELECT data FROM thread_sessions WHERE key = ?').get(key) as
+      | { data: string }
+      | undefined;
+    return row ? (JSON.parse(row.data) as ThreadSession) : undefined;
+  }
+
+  setThreadSession(key: string, session: ThreadSession): void {
+    const updatedAt = session.updatedAt ?? session.createdAt ?? Date.now();
+    this.getDb()
+      .prepare(
+        `INSERT INTO thread_sessions (key, data, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+      )
+      .run(key, JSON.stringify(session), updatedAt);
+  }
+
+  deleteThreadSession(key: string): void {
+    const db = this.getDb();
+    db.transaction(() => {
+      db.prepare('DELETE FROM thread_sessions WHERE key = ?').run(key);
+      db.prepare('DELETE FROM thread_cursors WHERE key = ?').run(key);
+    })();
+  }
+
+  getThreadSessions(): Array<[string, ThreadSession]> {
+    const rows = this.getDb().prepare('SELECT key, data FROM thread_sessions').all() as Array<{
+      key: string;
+      data: string;
+    }>;
+    return rows.map((row) => [row.key, JSON.parse(row.data) as ThreadSession]);
+  }
+
+  getThreadCursor(key: string): string | undefined {
+    const row = this.getDb().prepare('SELECT ts FROM thread_cursors WHERE key = ?').get(key) as
+      | { ts: string }
+      | undefined;
+    return row?.ts;
+  }
+
+  setThreadCursor(key: string, ts: string): void {
+    this.getDb()
+      .prepare('INSERT INTO thread_cursors (key, ts) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET ts = excluded.ts')
+      .run(key, ts);
+  }
+
+  isProcessed(ts: string): boolean {
+    return this.getDb().prepare('SELECT 1 FROM processed_messages WHERE ts = ?').get(ts) !== undefined;
+  }
+
+  markProcessed(ts: string): void {
+    this.getDb()
+      .prepare('INSERT OR IGNORE INTO processed_messages (ts, ts_num) VALUES (?, ?)')
+      .run(ts, parseFloat(ts));
+  }
+
+  getChannelCursor(channelId: string): string | undefined {
+    const db = this.getDb();
+    const row = db.prepare('SELECT ts FROM channel_cursors WHERE channel_id = ?').get(channelId) as
+      | { ts: string }
+      | undefined;
+    if (row) {
+      return row.ts;
+    }
+    // 旧形式の全チャンネル共通の監視位置
+    const legacy = db.prepare("SELECT value FROM meta WHERE key = 'lastTimestamp'").get() as
+      | { value: string }
+      | undefined;
+    return legacy?.value;
+  }
+
+  setChannelCursor(channelId: string, ts: string): void {
+    this.getDb()
+      .prepare(
+        'INSERT INTO channel_cursors (channel_id, ts) VALUES (?, ?) ON CONFLICT(channel_id) DO UPDATE SET ts = excluded.ts'
+      )
+      .run(channelId, ts);
+  }
+
+  prune(cutoff: number): void {
+    const db = this.getDb();
+    const { removedSessions, removedMessages } = db.transaction(() => {
+      db.prepare(
+        'DELETE FROM thread_cursors WHERE key IN (SELECT key FROM thread_sessions WHERE updated_at < ?)'
+      ).run(cutoff);
+      const sessions = db.prepare('DELETE FROM thread_sessions WHERE updated_at < ?').run(cutoff);
+      const messages = db.prepare('DELETE FROM processed_messages WHERE ts_num < ?').run(cutoff / 1000);
+      return { removedSessions: sessions.changes, removedMessages: messages.changes };
+    })();
+
+    if (removedSessions > 0 || removedMessages > 0) {
+      logger.info('古いセッションデータを削除', { removedSessions, removedMessages });
+    }
+  }
+
+  recordUsage(record: UsageRecord): void {
+    this.getDb()
+      .prepare(
+        `INSERT INTO usage_records (timestamp, user_id, project_name, channel_id, cost_usd,
+           input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.timestamp,
+        record.userId ?? null,
+        record.projectName,
+        record.channelId,
+        record.costUsd,
+        record.inputTokens,
+        record.outputTokens,
+        record.cacheReadTokens,
+        record.cacheCreationTokens
+      );
+  }
+
+  getUsageRecords(since: number): UsageRecord[] {
+    const rows = this.getDb()
+      .prepare(
+        `SELECT timestamp, user_id, project_name, channel_id, cost_usd,
+           input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens
+         FROM usage_records WHERE timestamp >= ? ORDER BY timestamp`
+      )
+      .all(since) as Array<{
+      timestamp: number;
+      user_id: string | null;
+      project_name: string;
+      channel_id: string;
+      cost_usd: number;
+      input_tokens: number;
+      output_tokens: number;
+      cache_read_tokens: number;
+      cache_creation_tokens: number;
+    }>;
+    return rows.map((row) => ({
+      timestamp: row.timestamp,
+      userId: row.user_id ?? undefined,
+      projectName: row.project_name,
+      channelId: row.channel_id,
+      costUsd: row.cost_usd,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      cacheCreationTokens: row.cache_creation_tokens,
+    }));
+  }
+
+  pruneUsage(cutoff: number): void {
+    const { changes } = this.getDb().prepare('DELETE FROM usage_records WHERE timestamp < ?').run(cutoff);
+    if (changes > 0) {
+      logger.info('古い利用量の記録を削除', { removedRecords: changes });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  /**
+   * 接続済みのDBを取得
+   * @returns DBインスタンス
+   * @throws load() 前に呼び出された場合
+   */
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('セッションDBが読み込まれていません');
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * リアクションによる状態表示
+ * 依頼メッセージにジョブの状態を表すリアクションを付け、状態が変わったら前のリアクションを外す
+ */
+
+import { ClaudeExecuteResult } from './claude-executor';
+import { SlackClient } from './slack-client';
+import { logger } from '../utils/logger';
+
+/**
+ * リアクションで表示するジョブの状態
+ * ジョブキューの JobStatus（実行中・待機中ジョブの情報）とは別物
+ * - queued: 順番待ち中
+ * - running: 実行中
+ * - succeeded: 成功
+ * - failed: 失敗
+ * - timedOut: タイムアウト
+ */
+export type JobStatusReaction = 'queued' | 'running' | 'succeeded' | 'failed' | 'timedOut';
+
+/**
+ * 状態ごとのリアクション名
+ * ⏳（hourglass）👀（eyes）✅（white_check_mark）❌（x）⚠️（warning）
+ */
+export const STATUS_REACTIONS: Record<JobStatusReaction, string> = {
+  queued: 'hourglass',
+  running: 'eyes',
+  succeeded: 'white_check_mark',
+  failed: 'x',
+  timedOut: 'warning',
+};
+
+/**
+ * 実行結果からジョブの最終状態を判定
+ * @param result Claude Code CLIの実行結果
+ * @returns ジョブの状態。キャンセルされた場合はundefined
+ */
+export function getResultStatus(result: ClaudeExecuteResult): JobStatusReaction | undefined {
+  if (result.cancelled) {
+    return undefined;
+  }
+  if (result.success) {
+    return 'succeeded';
+  }
+  return result.timedOut ? 'timedOut' : 'failed';
+}
+
+/**
+ * リアクションによる状態表示
+ * 更新は呼び出し順に直列化し、リアクションの付け外しに失敗してもジョブの実行は継続する
+ */
+export class StatusReactions {
+  private slackClient: SlackClient;
+  private channelId: string;
+  private messageTs: string;
+  /** 現在付けているリアクション名 */
+  private current?: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * コンストラクタ
+   * @param slackClient Slackクライアント
+   * @param channelId チャンネルID
+   * @param messageTs リアクションを付けるメッセージ（依頼メッセージ）のタイムスタンプ
+   */
+  constructor(slackClient: SlackClient, channelId: string, messageTs: string) {
+    this.slackClient = slackClient;
+    this.channelId = channelId;
+    this.messageTs = messageTs;
+  }
+
+  /**
+   * 状態を更新
+   * 新しいリアクションを付けてから、前の状態のリアクションを外す
+   * @param status ジョブの状態
+   */
+  update(status: JobStatusReaction): Promise<void> {
+    return this.enqueue(STATUS_REACTIONS[status]);
+  }
+
+  /**
+   * 状態のリアクションを外す（キャンセル時など）
+   */
+  clear(): Promise<void> {
+    return this.enqueue(undefined);
+  }
+
+  /**
+   * リアクションの付け替えを直前の更新の完了後に実行
+   * @param next 次に付けるリアクション名（外すだけの場合はundefined）
+   */
+  private enqueue(next: string | undefined): Promise<void> {
+    this.pending = this.pending.then(() => this.apply(next));
+    return this.pending;
+  }
+
+  /**
+   * リアクションを付け替え
+   * @param next 次に付けるリアクション名（外すだけの場合はundefined）
+   */
+  private async apply(next: string | undefined): Promise<void> {
+    const previous = this.current;
+    if (previous === next) {
+      return;
+    }
+    const { channelId, messageTs } = this;
+    try {
+      if (next) {
+        await this.slackClient.addReaction(channelId, messageTs, next);
+      }
+      this.current = next;
+      if (previous) {
+        await this.slackClient.removeReaction(channelId, messageTs, previous);
+      }
+    } catch (err) {
+      logger.warn('状態リアクション更新エラー', { channelId, messageTs, reaction: next, error: (err as Error).message });
+    }
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * 外部システムからの実行用HTTP API
+ * CIやスクリプトからプロジェクトとプロンプトを指定して実行を開始し、結果をSlackの新しいスレッドに投稿する
+ *
+ * - POST /api/runs      実行を開始（{ "project", "prompt", "channel"? }）
+ * - GET  /api/runs/:id  実行の状態を取得
+ * - GET  /api/jobs      実行中・待機中のジョブ一覧を取得
+ *
+ * クライアントごとのトークンを Authorization: Bearer ヘッダーで送信する
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { ApiClientConfig, ApiConfig } from '../types';
+import { logger } from '../utils/logger';
+import { JobStatus } from './job-queue';
+
+/** デフォルトの待ち受けポート */
+const DEFAULT_PORT = 3200;
+
+/** デフォルトの待ち受けアドレス */
+const DEFAULT_HOST = '127.0.0.1';
+
+/** リクエストボディの上限サイズ（バイト） */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** 完了した実行の状態を保持する期間（ミリ秒） */
+const RUN_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 実行開始リクエスト
+ */
+export interface RunRequest {
+  /** プロジェクト名 */
+  project: string;
+  /** プロンプト */
+  prompt: string;
+  /** 結果を投稿するチャンネルID（省略時はプロジェクトをデフォルトにしているチャンネル） */
+  channel?: string;
+}
+
+/**
+ * 実行の結果
+ */
+export interface RunOutcome {
+  /** 成功したか */
+  success: boolean;
+  /** キャンセルされたか */
+  cancelled?: boolean;
+  /** エラーメッセージ */
+  error?: string;
+  /** 費用（USD） */
+  costUsd?: number;
+}
+
+/**
+ * 開始した実行
+ */
+export interface StartedRun {
+  /** 結果を投稿するチャンネルID */
+  channelId: string;
+  /** 結果を投稿するスレッドの親タイムスタンプ */
+  threadTs: string;
+  /** 実行を開始したか（キューで待機中はfalse） */
+  isStarted(): boolean;
+  /** 実行完了時に解決されるPromise */
+  done: Promise<RunOutcome>;
+}
+
+/**
+ * 実行の状態
+ */
+export type RunState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * HTTP APIのリクエストを処理するハンドラ
+ */
+export interface TriggerHandler {
+  /**
+   * 実行を開始
+   * @throws {TriggerApiError} プロジェクトが存在しない・権限がない・利用上限に達した場合など
+   */
+  startRun(client: ApiClientConfig, request: RunRequest): Promise<StartedRun>;
+  /**
+   * 実行中・待機中のジョブ一覧を取得
+   * @param client 認証済みのクライアント（許可されたプロジェクト・チャンネルのジョブのみ返す）
+   */
+  getJobs(client: ApiClientConfig): { running: JobStatus[]; pending: JobStatus[] };
+}
+
+/**
+ * HTTP APIのエラー（ステータスコード付き）
+ */
+export class TriggerApiError extends Error {
+  status: number;
+
+  /**
+   * コンストラクタ
+   * @param status HTTPステータスコード
+   * @param message エラーメッセージ
+   */
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'TriggerApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * 追跡中の実行
+ */
+interface TrackedRun {
+  /** 実行ID */
+  id: string;
+  /** 実行を開始したクライアント名 */
+  clientName: string;
+  /** プロジェクト名 */
+  project: string;
+  /** 開始した実行 */
+  run: StartedRun;
+  /** 受付日時（Unix時間ミリ秒） */
+  createdAt: number;
+  /** 完了日時（Unix時間ミリ秒） */
+  finishedAt?: number;
+  /** 実行の結果（完了後） */
+  outcome?: RunOutcome;
+}
+
+/**
+ * トークンを比較（所要時間から一致した文字数を推測されないよう、ハッシュを定数時間で比較する）
+ * @param a トークン
+ * @param b トークン
+ * @returns 一致する場合true
+ */
+function tokenEquals(a: string, b: string): boolean {
+  const hash = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(hash(a), hash(b));
+}
+
+/**
+ * 外部システムからの実行用HTTP APIサーバー
+ */
+export class TriggerApiServer {
+  private port: number;
+  private host: string;
+  private clients: ApiClientConfig[];
+  private handler: TriggerHandler;
+  private server?: http.Server;
+  private runs = new Map<string, TrackedRun>();
+
+  /**
+   * コンストラクタ
+   * @param config HTTP API設定
+   * @param handler リクエストを処理するハンドラ
+   */
+  constructor(config: ApiConfig, handler: TriggerHandler) {
+    this.port = config.port ?? DEFAULT_PORT;
+    this.host = config.host ?? DEFAULT_HOST;
+    this.clients = Object.values(config.clients);
+    this.handler = handler;
+  }
+
+  /**
+   * クライアント設定を更新（設定の再読み込み時）
+   * 待ち受けポート・アドレスの変更は再起動まで反映されない
+   * @param config HTTP API設定
+   */
+  updateConfig(config: ApiConfig): void {
+    this.clients = Object.values(config.clients);
+  }
+
+  /**
+   * 待ち受けを開始
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        logger.error('HTTP APIのリクエスト処理エラー', err as Error);
+        if (!res.headersSent) {
+          sendJson(res, 500, { error: '内部エラーが発生しました' });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    logger.info('HTTP API起動', { host: this.host, port: this.port, clientCount: this.clients.length });
+  }
+
+  /**
+   * 待ち受けを停止
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return;
+    }
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * HTTPリクエストを処理
+   * @param req リクエスト
+   * @param res レスポンス
+   */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const client = this.authenticate(req);
+    if (!client) {
+      sendJson(res, 401, { error: '認証に失敗しました' });
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const runMatch = pathname.match(/^\/api\/runs\/([0-9a-f-]+)$/);
+
+    if (pathname === '/api/runs' && req.method === 'POST') {
+      await this.handleStartRun(client, req, res);
+    } else if (runMatch && req.method === 'GET') {
+      const tracked = this.runs.get(runMatch[1]);
+      // 他のクライアントの実行は存在しないものとして扱う
+      if (!tracked || tracked.clientName !== client.name) {
+        sendJson(res, 404, { error: '実行が見つかりません' });
+        return;
+      }
+      sendJson(res, 200, this.describeRun(tracked));
+    } else if (pathname === '/api/jobs' && req.method === 'GET') {
+      sendJson(res, 200, this.handler.getJobs(client));
+    } else {
+      sendJson(res, 404, { error: '不明なエンドポイントです' });
+    }
+  }
+
+  /**
+   * 実行開始リクエストを処理
+   * @param client 認証済みのクライアント
+   * @param req リクエスト
+   * @param res レスポンス
+   */
+  private async handleStartRun(
+    client: ApiClientConfig,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const body = await readBody(req);
+    if (body === null) {
+      sendJson(res, 413, { error: 'リクエストボディが大きすぎます' });
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      sendJson(res, 400, { error: 'JSONの形式が不正です' });
+      return;
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      sendJson(res, 400, { error: 'リクエストボディはJSONオブジェクトで指定してください' });
+      return;
+    }
+    const request = parsed as Partial<RunRequest>;
+    if (
+      typeof request.project !== 'string' ||
+      typeof request.prompt !== 'string' ||
+      !request.prompt.trim() ||
+      (request.channel !== undefined && typeof request.channel !== 'string')
+    ) {
+      sendJson(res, 400, { error: 'project と prompt を文字列で指定してください' });
+      return;
+    }
+
+    let run: StartedRun;
+    try {
+      run = await this.handler.startRun(client, {
+        project: request.project,
+        prompt: request.prompt,
+        channel: request.channel,
+      });
+    } catch (err) {
+      if (err instanceof TriggerApiError) {
+        sendJson(res, err.status, { error: err.message });
+        return;
+      }
+      throw err;
+    }
+
+    this.pruneRuns();
+    const tracked: TrackedRun = {
+      id: crypto.randomUUID(),
+      clientName: client.name,
+      project: request.project,
+      run,
+      createdAt: Date.now(),
+    };
+    this.runs.set(tracked.id, tracked);
+    run.done
+      .catch((err): RunOutcome => ({ success: false, error: (err as Error).message }))
+      .then((outcome) => {
+        tracked.outcome = outcome;
+        tracked.finishedAt = Date.now();
+      });
+
+    logger.info('HTTP APIから実行を開始', { runId: tracked.id, client: client.name, project: request.project });
+    sendJson(res, 202, this.describeRun(tracked));
+  }
+
+  /**
+   * Authorizationヘッダーからクライアントを特定
+   * @param req リクエスト
+   * @returns クライアント設定。認証できない場合はundefined
+   */
+  private authenticate(req: http.IncomingMessage): ApiClientConfig | undefined {
+    const match = (req.headers.authorization ?? '').match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      return undefined;
+    }
+    return this.clients.find((client) => tokenEquals(client.token, match[1]));
+  }
+
+  /**
+   * 実行の状態をレスポンス用に変換
+   * @param tracked 追跡中の実行
+   * @returns レスポンスボディ
+   */
+  private describeRun(tracked: TrackedRun): object {
+    const { run, outcome } = tracked;
+    let state: RunState;
+    if (outcome) {
+      state = outcome.cancelled ? 'cancelled' : outcome.success ? 'succeeded' : 'failed';
+    } else {
+      state = run.isStarted() ? 'running' : 'queued';
+    }
+
+    return {
+      id: tracked.id,
+      state,
+      project: tracked.project,
+      channel: run.channelId,
+      threadTs: run.threadTs,
+      threadUrl: `https://slack.com/archives/${run.channelId}/p${run.threadTs.replace('.', '')}`,
+      createdAt: new Date(tracked.createdAt).toISOString(),
+      finishedAt: tracked.finishedAt ? new Date(tracked.finishedAt).toISOString() : undefined,
+      error: outcome?.error,
+      costUsd: outcome?.costUsd,
+    };
+  }
+
+  /**
+   * 保持期間を過ぎた完了済みの実行を削除
+   */
+  private pruneRuns(): void {
+    const cutoff = Date.now() - RUN_RETENTION_MS;
+    for (const [id, tracked] of this.runs) {
+      if (tracked.finishedAt !== undefined && tracked.finishedAt < cutoff) {
+        this.runs.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * JSONレスポンスを送信
+ * @param res レスポンス
+ * @param status HTTPステータスコード
+ * @param body レスポンスボディ
+ */
+function sendJson(res: http.ServerResponse, status: number, body: object): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * リクエストボディを読み込む
+ * @param req リクエスト
+ * @returns ボディ文字列。上限サイズを超えた場合はnull
+ */
+function readBody(req: http.IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let exceeded = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        exceeded = true;
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(exceeded ? null : Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,206 @@
+/**
+ * 利用量の集計と利用上限の判定
+ * 実行ごとの費用・トークン数を記録から集計し、日次・月次の利用上限を超えた場合は新しい実行を拒否する
+ */
+
+import { BudgetConfig, BudgetLimits, TokenUsage, UsagePeriod, UsageRecord } from '../types';
+import { ClaudeUsage } from './claude-executor';
+import { formatDuration } from '../utils/duration';
+
+/**
+ * 利用量の集計値
+ */
+export interface UsageTotals extends TokenUsage {
+  /** 費用（USD） */
+  costUsd: number;
+  /** 実行回数 */
+  runs: number;
+}
+
+/**
+ * 利用上限の判定対象
+ */
+export interface BudgetScope {
+  /** 依頼したユーザーID */
+  userId?: string;
+  /** プロジェクト名 */
+  projectName: string;
+  /** チャンネルID */
+  channelId: string;
+}
+
+/** 集計期間の日本語表記 */
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  daily: '本日',
+  monthly: '今月',
+};
+
+/** 利用上限の種別の日本語表記 */
+const LIMIT_LABELS: Record<keyof BudgetLimits, string> = {
+  total: '全体',
+  perUser: 'ユーザーごと',
+  perProject: 'プロジェクトごと',
+  perChannel: 'チャンネルごと',
+};
+
+/**
+ * 集計期間の開始時刻を取得（ローカル時刻）
+ * @param period 集計期間
+ * @param now 現在時刻（Unix時間ミリ秒）
+ * @returns 期間の開始時刻（Unix時間ミリ秒）
+ */
+export function getPeriodStart(period: UsagePeriod, now: number = Date.now()): number {
+  const date = new Date(now);
+  return period === 'daily'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/**
+ * 費用をフォーマット
+ * @param usd 費用（USD）
+ * @returns フォーマット済み文字列（例: $0.0123、$12.34）
+ */
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
+
+/**
+ * トークン数をフォーマット
+ * @param tokens トークン数
+ * @returns フォーマット済み文字列（例: 850、12.3k、1.2M）
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) {
+    return `${(tokens / 1000000).toFixed(1)}M`;
+  }
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+/**
+ * 回答の下に表示する利用量を生成
+ * @param usage 実行の利用量
+ * @returns コンテキストブロックに表示する行（mrkdwn）
+ */
+export function formatUsageFooter(usage: ClaudeUsage): string {
+  const cached = usage.cacheReadTokens + usage.cacheCreationTokens;
+  const parts = [
+    formatCost(usage.costUsd),
+    `入力 ${formatTokens(usage.inputTokens)} / 出力 ${formatTokens(usage.outputTokens)} トークン` +
+      (cached > 0 ? `（キャッシュ ${formatTokens(cached)}）` : ''),
+  ];
+  if (usage.numTurns !== undefined) {
+    parts.push(`${usage.numTurns}ターン`);
+  }
+  if (usage.durationMs !== undefined) {
+    parts.push(formatDuration(usage.durationMs));
+  }
+  return `:bar_chart: ${parts.join(' ・ ')}`;
+}
+
+/**
+ * 利用量を集計
+ * @param records 利用量の記録
+ * @returns 集計値
+ */
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = {
+    costUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    runs: 0,
+  };
+  for (const record of records) {
+    totals.costUsd += record.costUsd;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cacheReadTokens += record.cacheReadTokens;
+    totals.cacheCreationTokens += record.cacheCreationTokens;
+    totals.runs++;
+  }
+  return totals;
+}
+
+/**
+ * 利用量を指定したキーごとに集計
+ * @param records 利用量の記録
+ * @param getKey 集計キーを取り出す関数（undefinedの記録は集計しない）
+ * @returns キーと集計値の一覧（費用の多い順）
+ */
+export function groupUsage(
+  records: UsageRecord[],
+  getKey: (record: UsageRecord) => string | undefined
+): Array<[string, UsageTotals]> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = getKey(record);
+    if (key === undefined) {
+      continue;
+    }
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+  return Array.from(groups.entries())
+    .map(([key, group]): [string, UsageTotals] => [key, sumUsage(group)])
+    .sort((a, b) => b[1].costUsd - a[1].costUsd);
+}
+
+/**
+ * 利用上限を超えていないか判定
+ * @param budgets 利用上限設定
+ * @param records 今月以降の利用量の記録
+ * @param scope 判定対象
+ * @param now 現在時刻（Unix時間ミリ秒）
+ * @returns 上限に達している場合は拒否理由、それ以外はundefined
+ */
+export function checkBudget(
+  budgets: BudgetConfig | undefined,
+  records: UsageRecord[],
+  scope: BudgetScope,
+  now: number = Date.now()
+): string | undefined {
+  if (!budgets) {
+    return undefined;
+  }
+
+  const matchers: Record<keyof BudgetLimits, (record: UsageRecord) => boolean> = {
+    total: () => true,
+    perUser: (record) => scope.userId !== undefined && record.userId === scope.userId,
+    perProject: (record) => record.projectName === scope.projectName,
+    perChannel: (record) => record.channelId === scope.channelId,
+  };
+
+  for (const period of ['daily', 'monthly'] as const) {
+    const limits = budgets[period];
+    if (!limits) {
+      continue;
+    }
+    const start = getPeriodStart(period, now);
+    const periodRecords = records.filter((record) => record.timestamp >= start);
+
+    for (const kind of Object.keys(LIMIT_LABELS) as Array<keyof BudgetLimits>) {
+      const limit = limits[kind];
+      if (limit === undefined) {
+        continue;
+      }
+      const spent = sumUsage(periodRecords.filter(matchers[kind])).costUsd;
+      if (spent >= limit) {
+        return (
+          `${PERIOD_LABELS[period]}の利用上限（${LIMIT_LABELS[kind]} ${formatCost(limit)}）に達したため実行できません` +
+          `（利用額: ${formatCost(spent)}）`
+        );
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,86 @@
+/**
+ * git worktree の管理
+ * スレッドごとに専用のworktreeとブランチを作成し、同じプロジェクトへの同時変更が互いに干渉しないようにする
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectConfig } from '../types';
+import { runGit } from '../utils/git';
+import { logger } from '../utils/logger';
+
+/** worktreeのデフォルト作成先 */
+const DEFAULT_WORKTREE_DIR = 'data/worktrees';
+
+/** スレッド用ブランチ名の接頭辞 */
+const BRANCH_PREFIX = 'slack/';
+
+/**
+ * スレッド用のworktree情報
+ */
+export interface ThreadWorktree {
+  /** worktreeのパス */
+  path: string;
+  /** ブランチ名 */
+  branch: string;
+}
+
+/**
+ * スレッド用のworktree情報を取得
+ * ブランチ名・ディレクトリ名はチャンネルIDとスレッドの親タイムスタンプから生成する
+ * @param project プロジェクト設定
+ * @param channelId チャンネルID
+ * @param threadTs スレッドの親タイムスタンプ
+ * @returns worktree情報
+ */
+export function getThreadWorktree(project: ProjectConfig, channelId: string, threadTs: string): ThreadWorktree {
+  const name = `${channelId}-${threadTs.replace('.', '-')}`;
+  const baseDir = path.resolve(project.worktreeDir ?? path.join(DEFAULT_WORKTREE_DIR, project.name));
+  return {
+    path: path.join(baseDir, name),
+    branch: `${BRANCH_PREFIX}${name}`,
+  };
+}
+
+/**
+ * worktreeを作成
+ * プロジェクトの現在のHEADから新しいブランチを作成する
+ * @param projectPath プロジェクトパス（gitリポジトリ）
+ * @param worktree worktree情報
+ * @throws 作成に失敗した場合
+ */
+export async function createWorktree(projectPath: string, worktree: ThreadWorktree): Promise<void> {
+  logger.info('worktree作成', { projectPath, ...worktree });
+  await runGit(projectPath, ['worktree', 'add', '-b', worktree.branch, worktree.path]);
+}
+
+/**
+ * worktreeに未コミットの変更（未追跡ファイルを含む）があるか判定
+ * @param worktreePath worktreeのパス
+ * @returns 未コミットの変更がある場合true。ディレクトリが存在しない場合はfalse
+ * @throws gitコマンドが失敗した場合
+ */
+export async function hasUncommittedChanges(worktreePath: string): Promise<boolean> {
+  if (!fs.existsSync(worktreePath)) {
+    return false;
+  }
+  const status = await runGit(worktreePath, ['status', '--porcelain']);
+  return status.trim() !== '';
+}
+
+/**
+ * worktreeを削除
+ * 未コミットの変更がある場合は破棄せずに失敗する。ブランチはコミット済みの作業を残すため削除しない
+ * @param projectPath プロジェクトパス（gitリポジトリ）
+ * @param worktreePath worktreeのパス
+ * @throws 未コミットの変更があるなどで削除できなかった場合
+ */
+export async function removeWorktree(projectPath: string, worktreePath: string): Promise<void> {
+  logger.info('worktree削除', { projectPath, worktreePath });
+  if (!fs.existsSync(worktreePath)) {
+    // ディレクトリが既に削除されている場合は管理情報のみ整理する
+    await runGit(projectPath, ['worktree', 'prune']);
+    return;
+  }
+  await runGit(projectPath, ['worktree', 'remove', worktreePath]);
+}
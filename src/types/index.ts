@@ -2,26 +2,122 @@
  * Slack Claude Bot 型定義
  */
 
+/**
+ * Claude Code CLIのパーミッションモード
+ * - default: 通常（許可されていないツールは使用不可）
+ * - acceptEdits: ファイル編集を自動承認
+ * - bypassPermissions: すべてのツールを自動承認
+ * - plan: 読み取り専用（計画のみ）
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+
+/**
+ * ツール権限設定
+ * プロジェクト・チャンネルごとに指定でき、チャンネルの設定が優先される
+ */
+export interface ToolPermissionConfig {
+  /** 許可するツール（指定時はデフォルトの許可ツールを置き換える） */
+  allowedTools?: string[];
+  /** 禁止するツール */
+  disallowedTools?: string[];
+  /** パーミッションモード */
+  permissionMode?: PermissionMode;
+  /** Claude Code CLIに追加で渡す引数 */
+  extraArgs?: string[];
+  /** 許可リスト外のツール実行時にSlackで承認を求めるか（デフォルト: false） */
+  approval?: boolean;
+}
+
+/**
+ * アクセス制御ルール
+ * いずれも未指定の場合は全ユーザーに許可する
+ */
+export interface AccessRuleConfig {
+  /** 許可するユーザーID */
+  allowedUsers?: string[];
+  /** 許可するユーザーグループID（S で始まるID） */
+  allowedUserGroups?: string[];
+}
+
+/**
+ * 実行オプション
+ * 依頼ごとに `--model opus --max-turns 20 --timeout 15m` の形式で指定できる
+ */
+export interface RunOptions {
+  /** モデル（sonnet / opus などのエイリアス、またはモデル名） */
+  model?: string;
+  /** 最大ターン数 */
+  maxTurns?: number;
+  /** タイムアウト（ミリ秒） */
+  timeoutMs?: number;
+}
+
+/**
+ * 実行オプションのデフォルトと上限（プロジェクトごと）
+ */
+export interface RunOptionsConfig {
+  /** デフォルトのモデル（未指定時はCLIのデフォルト） */
+  model?: string;
+  /** 指定できるモデル（未指定時は制限なし） */
+  allowedModels?: string[];
+  /** デフォルトの最大ターン数（未指定時は無制限） */
+  maxTurns?: number;
+  /** 指定できる最大ターン数の上限（未指定時は制限なし） */
+  maxTurnsLimit?: number;
+  /** デフォルトのタイムアウト（例: 10m、デフォルト: 5m） */
+  timeout?: string;
+  /** 指定できるタイムアウトの上限（例: 1h、デフォルト: 30m） */
+  maxTimeout?: string;
+}
+
 /**
  * プロジェクト設定
  */
-export interface ProjectConfig {
+export interface ProjectConfig extends ToolPermissionConfig, AccessRuleConfig {
   /** プロジェクト名 */
   name: string;
   /** プロジェクトパス */
   path: string;
+  /** スレッドごとにgit worktreeを作成して実行するか（デフォルト: false） */
+  worktree?: boolean;
+  /** worktreeの作成先ディレクトリ（デフォルト: data/worktrees/<プロジェクト名>） */
+  worktreeDir?: string;
+  /** 実行オプションのデフォルトと上限 */
+  run?: RunOptionsConfig;
+  /** プロジェクトのシステムプロンプト（claude.systemPrompt の後に追加） */
+  systemPrompt?: string;
 }
 
 /**
  * チャンネル設定
  */
-export interface ChannelConfig {
+export interface ChannelConfig extends ToolPermissionConfig, AccessRuleConfig {
   /** チャンネルID */
   channelId: string;
   /** デフォルトプロジェクト名 */
   defaultProject?: string;
+  /** チャンネルのシステムプロンプト（プロジェクトのシステムプロンプトの後に追加） */
+  systemPrompt?: string;
+  /** ジョブの状態の表示方法（デフォルト: message） */
+  statusIndicator?: StatusIndicatorMode;
 }
 
+/**
+ * ジョブの状態の表示方法
+ * - message: 「処理中...」メッセージを投稿し、進捗と回答で更新する
+ * - reactions: 依頼メッセージのリアクションで状態を表示し、回答は新しい投稿で返す
+ * - both: 両方
+ */
+export type StatusIndicatorMode = 'message' | 'reactions' | 'both';
+
+/**
+ * メッセージ受信方式
+ * - polling: conversations.history / replies を定期的に取得
+ * - socket: Socket Mode（WebSocket）でイベントを受信
+ * - events: Events API（HTTPエンドポイント）でイベントを受信
+ */
+export type IngestionMode = 'polling' | 'socket' | 'events';
+
 /**
  * Slack設定
  */
@@ -30,6 +126,30 @@ export interface SlackConfig {
   botToken: string;
   /** ポーリング間隔（ミリ秒） */
   pollingInterval: number;
+  /** メッセージ受信方式（デフォルト: polling） */
+  mode?: IngestionMode;
+  /** イベント受信の開始に失敗した場合にポーリングへ切り替えるか（デフォルト: true） */
+  fallbackToPolling?: boolean;
+  /** App-Level Token（Socket Mode用、xapp-で始まる） */
+  appToken?: string;
+  /** Socket Modeの接続先URL（指定時は apps.connections.open を呼ばずに接続。テスト用） */
+  socketModeUrl?: string;
+  /** Slack Web APIのベースURL（デフォルト: https://slack.com/api/。擬似サーバーを使うテスト用） */
+  apiUrl?: string;
+  /** Signing Secret（Events API用） */
+  signingSecret?: string;
+  /** Events API受信ポート（デフォルト: 3000） */
+  eventsPort?: number;
+  /** Events API受信パス（デフォルト: /slack/events） */
+  eventsPath?: string;
+  /** 「処理中...」メッセージの進捗更新間隔（ミリ秒、デフォルト: 5000） */
+  progressUpdateInterval?: number;
+  /** 1メッセージの最大文字数。超える回答は分割して投稿（デフォルト: 3900） */
+  maxMessageLength?: number;
+  /** この文字数を超える回答はMarkdownファイルで添付（デフォルト: 12000） */
+  fileUploadThreshold?: number;
+  /** 回答をBlock Kitで整形して投稿するか（デフォルト: true） */
+  blockKit?: boolean;
 }
 
 /**
@@ -38,6 +158,146 @@ export interface SlackConfig {
 export interface ClaudeConfig {
   /** システムプロンプト（事前知識） */
   systemPrompt?: string;
+  /** Claude Code CLIの最大同時実行数（デフォルト: 2） */
+  maxConcurrentJobs?: number;
+  /**
+   * ジョブを直列化する単位（デフォルト: project）
+   * - project: 同じプロジェクトパスのジョブは1つずつ実行
+   * - thread: 同じスレッドのジョブは1つずつ実行
+   */
+  queueScope?: 'project' | 'thread';
+  /** 実行後にgitの差分統計とパッチを投稿するか（デフォルト: true） */
+  postDiff?: boolean;
+  /** ツール実行の承認待ちのタイムアウト（ミリ秒、デフォルト: 120000）。過ぎると拒否扱い */
+  approvalTimeout?: number;
+  /** 承認用MCPサーバーの待ち受けポート（127.0.0.1、デフォルト: 空きポートを自動選択） */
+  approvalPort?: number;
+}
+
+/**
+ * セッションストアのバックエンド種別
+ */
+export type StorageType = 'json' | 'sqlite';
+
+/**
+ * セッションストア設定
+ */
+export interface StorageConfig {
+  /** バックエンド種別（デフォルト: json） */
+  type?: StorageType;
+  /** 保存先ファイルパス */
+  path?: string;
+  /** 保持期間（日）。これより古いセッション・処理済みメッセージは削除 */
+  retentionDays?: number;
+}
+
+/**
+ * アクセス制御設定
+ */
+export interface AccessConfig {
+  /** 管理者ユーザーID（すべてのプロジェクト・チャンネルで実行可能） */
+  admins?: string[];
+}
+
+/**
+ * 利用上限（USD）
+ */
+export interface BudgetLimits {
+  /** 全体の上限 */
+  total?: number;
+  /** ユーザーごとの上限 */
+  perUser?: number;
+  /** プロジェクトごとの上限 */
+  perProject?: number;
+  /** チャンネルごとの上限 */
+  perChannel?: number;
+}
+
+/**
+ * 利用量の集計期間
+ */
+export type UsagePeriod = 'daily' | 'monthly';
+
+/**
+ * 利用上限設定
+ * 期間の区切りはBotを実行しているマシンのローカル時刻
+ */
+export type BudgetConfig = Partial<Record<UsagePeriod, BudgetLimits>>;
+
+/**
+ * 定期実行設定
+ */
+export interface ScheduleConfig {
+  /** 定期実行名 */
+  name: string;
+  /** 実行タイミング（cron形式: 分 時 日 月 曜日、ローカル時刻） */
+  cron: string;
+  /** プロジェクト名 */
+  project: string;
+  /** 結果を投稿するチャンネルID */
+  channel: string;
+  /** プロンプト */
+  prompt: string;
+}
+
+/**
+ * プロンプトテンプレート
+ * `!claude <プロジェクト名> /<テンプレート名> <引数>` で呼び出す
+ */
+export interface PromptTemplateConfig {
+  /** テンプレート名 */
+  name: string;
+  /** プロンプト（{{args}} / {{1}} / {{user}} / {{channel}} / {{branch}} / {{project}} を置換） */
+  prompt: string;
+  /** 説明（ヘルプに表示） */
+  description?: string;
+}
+
+/**
+ * HTTP APIのクライアント設定
+ */
+export interface ApiClientConfig {
+  /** クライアント名 */
+  name: string;
+  /** 認証トークン（Authorization: Bearer ヘッダーで送信） */
+  token: string;
+  /** 実行を許可するプロジェクト（省略時はすべて） */
+  projects?: string[];
+  /** 結果の投稿を許可するチャンネル（省略時は channels に設定したすべて） */
+  channels?: string[];
+}
+
+/**
+ * HTTP API設定（外部システムからの実行用）
+ */
+export interface ApiConfig {
+  /** 待ち受けポート（デフォルト: 3200） */
+  port?: number;
+  /** 待ち受けアドレス（デフォルト: 127.0.0.1） */
+  host?: string;
+  /** クライアント名とクライアント設定のマッピング */
+  clients: Record<string, ApiClientConfig>;
+}
+
+/**
+ * スレッドセッション設定
+ */
+export interface SessionConfig {
+  /** やり取りがないまま経過するとセッションを終了する時間（時間、デフォルト: 72）。0の場合は終了しない */
+  idleTimeoutHours?: number;
+}
+
+/**
+ * 添付ファイルの種別
+ */
+export type AttachmentKind = 'image' | 'text' | 'pdf' | 'other';
+
+/**
+ * 添付ファイル設定
+ */
+export interface AttachmentConfig {
+  /** 種別ごとのサイズ上限（MB）。0を指定した種別はダウンロードしない */
+  maxSizeMB?: Partial<Record<AttachmentKind, number>>;
 }
 
 /**
@@ -45,12 +305,28 @@ export interface ClaudeConfig {
  */
 export interface AppConfig {
   slack: SlackConfig;
-  /** プロジェクト名とパスのマッピング */
-  projects: Record<string, string>;
-  /** チャンネルIDとデフォルトプロジェクトのマッピング */
-  channels?: Record<string, string>;
+  /** プロジェクト名とプロジェクト設定のマッピング */
+  projects: Record<string, ProjectConfig>;
+  /** チャンネルIDとチャンネル設定のマッピング */
+  channels?: Record<string, ChannelConfig>;
   /** Claude設定 */
   claude?: ClaudeConfig;
+  /** セッションストア設定 */
+  storage?: StorageConfig;
+  /** アクセス制御設定 */
+  access?: AccessConfig;
+  /** 利用上限設定 */
+  budgets?: BudgetConfig;
+  /** 定期実行名と定期実行設定のマッピング */
+  schedules?: Record<string, ScheduleConfig>;
+  /** HTTP API設定 */
+  api?: ApiConfig;
+  /** 添付ファイル設定 */
+  attachments?: AttachmentConfig;
+  /** スレッドセッション設定 */
+  sessions?: SessionConfig;
+  /** テンプレート名とプロンプトテンプレートのマッピング */
+  templates?: Record<string, PromptTemplateConfig>;
 }
 
 /**
@@ -63,8 +339,15 @@ export interface ParsedCommand {
   prompt: string;
   /** 添付画像のURL一覧 */
   imageUrls?: string[];
+  /** 依頼時に指定された実行オプション */
+  options: RunOptions;
 }
 
+/**
+ * Bot自身のコマンド（!claude help など）
+ */
+export type MetaCommand = 'help' | 'projects' | 'status' | 'sessions' | 'usage' | 'reset' | 'cancel' | 'close';
+
 /**
  * Slackメッセージ情報
  */
@@ -81,6 +364,8 @@ export interface SlackMessage {
   files?: SlackFile[];
   /** スレッドの親タイムスタンプ（スレッド返信の場合） */
   thread_ts?: string;
+  /** 付いているリアクション（履歴取得時のみ） */
+  reactions?: Array<{ name: string; users: string[] }>;
 }
 
 /**
@@ -93,6 +378,10 @@ export interface SlackFile {
   name?: string;
   /** MIMEタイプ */
   mimetype?: string;
+  /** Slack上のファイル種別（text, python, pdf など） */
+  filetype?: string;
+  /** ファイルサイズ（バイト） */
+  size?: number;
   /** プライベートダウンロードURL */
   url_private?: string;
 }
@@ -107,4 +396,44 @@ export interface ThreadSession {
   projectPath: string;
   /** Claude CodeセッションID */
   sessionId?: string;
+  /** スレッド専用のworktreeのパス（worktree使用時） */
+  worktreePath?: string;
+  /** worktreeのブランチ名（worktree使用時） */
+  branch?: string;
+  /** 依頼時に指定された実行オプション（スレッド内の以降の実行にも適用） */
+  runOptions?: RunOptions;
+  /** 作成日時（Unix時間ミリ秒） */
+  createdAt?: number;
+  /** 最終更新日時（Unix時間ミリ秒） */
+  updatedAt?: number;
+}
+
+/**
+ * トークン使用量
+ */
+export interface TokenUsage {
+  /** 入力トークン数 */
+  inputTokens: number;
+  /** 出力トークン数 */
+  outputTokens: number;
+  /** キャッシュから読み込んだ入力トークン数 */
+  cacheReadTokens: number;
+  /** キャッシュに書き込んだ入力トークン数 */
+  cacheCreationTokens: number;
+}
+
+/**
+ * 1回の実行の利用量の記録
+ */
+export interface UsageRecord extends TokenUsage {
+  /** 実行完了日時（Unix時間ミリ秒） */
+  timestamp: number;
+  /** 依頼したユーザーID */
+  userId?: string;
+  /** プロジェクト名 */
+  projectName: string;
+  /** チャンネルID */
+  channelId: string;
+  /** 費用（USD） */
+  costUsd: number;
 }
@@ -0,0 +1,360 @@
+/**
+ * MarkdownをSlackのBlock Kitに変換するユーティリティ
+ * 見出し・段落・リスト・引用・コードブロック・表をそれぞれ適したブロックで表現する
+ */
+
+import {
+  ContextBlock,
+  KnownBlock,
+  RichTextBlock,
+  RichTextElement,
+  RichTextList,
+  RichTextSection,
+} from '@slack/web-api';
+import { convertMarkdownToMrkdwn } from './markdown-converter';
+
+/** 1メッセージあたりのブロック数の上限 */
+const MAX_BLOCKS = 50;
+
+/** セクション・コンテキストのテキスト上限 */
+const MAX_TEXT_LENGTH = 3000;
+
+/** ヘッダーのテキスト上限 */
+const MAX_HEADER_LENGTH = 150;
+
+/** リストのインデント上限 */
+const MAX_LIST_INDENT = 8;
+
+const FENCE_PATTERN = /^\s*```/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+)$/;
+const DIVIDER_PATTERN = /^\s*(-{3,}|\*{3,}|_{3,})\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const TABLE_ROW_PATTERN = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** リンク要素にできるURL（相対パスやアンカーはSlackが受け付けない） */
+const LINKABLE_URL_PATTERN = /^https?:\/\//i;
+
+/** 全角（表示幅2）の文字 */
+const WIDE_CHAR_PATTERN = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+/**
+ * インライン要素のパターン
+ * コード・太字・取り消し線・リンク・メンション・チャンネル・Slack形式リンク・斜体の順に判定
+ */
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*([^*]+)\*\*|__([^_]+)__|~~([^~]+)~~|\[([^\]]+)\]\(([^)\s]+)\)|<@([A-Z0-9]+)>|<#([A-Z0-9]+)(?:\|[^>]*)?>|<(https?:\/\/[^|>]+)(?:\|([^>]+))?>|\*([^*\s][^*]*)\*|_([^_\s][^_]*)_/g;
+
+/**
+ * テキストを上限文字数ごとに分割
+ * @param text テキスト
+ * @param maxLength 最大文字数
+ * @returns 分割結果
+ */
+function chunkText(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += maxLength) {
+    chunks.push(text.substring(i, i + maxLength));
+  }
+  return chunks.length > 0 ? chunks : [''];
+}
+
+/**
+ * インラインのMarkdownをリッチテキスト要素に変換
+ * @param text インラインテキスト
+ * @returns リッチテキスト要素一覧
+ */
+export function parseInline(text: string): RichTextElement[] {
+  const elements: RichTextElement[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string): void => {
+    if (value) {
+      elements.push({ type: 'text', text: value });
+    }
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.substring(lastIndex, match.index));
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    const [
+      ,
+      code,
+      bold,
+      boldUnderscore,
+      strike,
+      linkText,
+      linkUrl,
+      userId,
+      channelId,
+      slackUrl,
+      slackUrlText,
+      italic,
+      italicUnderscore,
+    ] = match;
+
+    if (code !== undefined) {
+      elements.push({ type: 'text', text: code, style: { code: true } });
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      elements.push({ type: 'text', text: bold ?? boldUnderscore, style: { bold: true } });
+    } else if (strike !== undefined) {
+      elements.push({ type: 'text', text: strike, style: { strike: true } });
+    } else if (linkUrl !== undefined && LINKABLE_URL_PATTERN.test(linkUrl)) {
+      elements.push({ type: 'link', url: linkUrl, text: linkText });
+    } else if (linkUrl !== undefined) {
+      elements.push({ type: 'text', text: linkText });
+    } else if (userId !== undefined) {
+      elements.push({ type: 'user', user_id: userId });
+    } else if (channelId !== undefined) {
+      elements.push({ type: 'channel', channel_id: channelId });
+    } else if (slackUrl !== undefined) {
+      elements.push({ type: 'link', url: slackUrl, text: slackUrlText });
+    } else {
+      elements.push({ type: 'text', text: italic ?? italicUnderscore, style: { italic: true } });
+    }
+  }
+  pushText(text.substring(lastIndex));
+
+  return elements.length > 0 ? elements : [{ type: 'text', text: ' ' }];
+}
+
+/**
+ * 表示幅を取得（全角文字は2として数える）
+ * @param text テキスト
+ * @returns 表示幅
+ */
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHAR_PATTERN.test(char) ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * 表の行をセルに分割
+ * @param line 表の行
+ * @returns セル一覧
+ */
+function parseTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim());
+}
+
+/**
+ * 表を等幅テキストに整形
+ * @param lines 表の行（区切り行を含む）
+ * @returns 整形済みテキスト
+ */
+function formatTable(lines: string[]): string {
+  const rows = lines.filter((line) => !TABLE_SEPARATOR_PATTERN.test(line)).map(parseTableRow);
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const widths = Array.from({ length: columnCount }, (_, i) =>
+    Math.max(...rows.map((row) => displayWidth(row[i] ?? '')))
+  );
+
+  const formatRow = (row: string[]): string =>
+    widths
+      .map((width, i) => {
+        const cell = row[i] ?? '';
+        return cell + ' '.repeat(width - displayWidth(cell));
+      })
+      .join(' | ')
+      .trimEnd();
+
+  const [header, ...body] = rows;
+  const separator = widths.map((width) => '-'.repeat(width)).join('-+-');
+  return [formatRow(header), separator, ...body.map(formatRow)].join('\n');
+}
+
+/**
+ * リスト行をrich_textブロックに変換
+ * 同じ種類・同じインデントの連続した項目を1つのリストにまとめる
+ * @param lines リスト行
+ * @returns rich_textブロック
+ */
+function renderList(lines: string[]): RichTextBlock {
+  const lists: RichTextList[] = [];
+
+  for (const line of lines) {
+    const match = line.match(LIST_ITEM_PATTERN);
+    if (!match) {
+      // 項目の継続行は直前の項目に連結
+      const last = lists[lists.length - 1]?.elements.slice(-1)[0];
+      last?.elements.push({ type: 'text', text: ` ${line.trim()}` });
+      continue;
+    }
+
+    const [, indentText, marker, content] = match;
+    const indent = Math.min(Math.floor(indentText.replace(/\t/g, '  ').length / 2), MAX_LIST_INDENT);
+    const style = /^\d/.test(marker) ? 'ordered' : 'bullet';
+    const item: RichTextSection = { type: 'rich_text_section', elements: parseInline(content) };
+
+    const current = lists[lists.length - 1];
+    if (current && current.style === style && (current.indent ?? 0) === indent) {
+      current.elements.push(item);
+    } else {
+      lists.push({ type: 'rich_text_list', style, indent, elements: [item] });
+    }
+  }
+
+  return { type: 'rich_text', elements: lists };
+}
+
+/**
+ * MarkdownをBlock Kitのブロック一覧に変換
+ * @param markdown Markdown形式のテキスト
+ * @returns ブロック一覧
+ */
+export function renderMarkdownToBlocks(markdown: string): KnownBlock[] {
+  const blocks: KnownBlock[] = [];
+  const lines = markdown.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = (): void => {
+    const text = paragraph.join('\n').trim();
+    paragraph = [];
+    if (!text) {
+      return;
+    }
+    for (const chunk of chunkText(convertMarkdownToMrkdwn(text), MAX_TEXT_LENGTH)) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text: chunk } });
+    }
+  };
+
+  /**
+   * 条件を満たす行を連続して取得
+   */
+  const collect = (start: number, predicate: (line: string) => boolean): string[] => {
+    const collected: string[] = [];
+    for (let i = start; i < lines.length && predicate(lines[i]); i++) {
+      collected.push(lines[i]);
+    }
+    return collected;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // コードブロック
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      for (const chunk of chunkText(code.join('\n'), MAX_TEXT_LENGTH)) {
+        blocks.push({
+          type: 'rich_text',
+          elements: [{ type: 'rich_text_preformatted', elements: [{ type: 'text', text: chunk || ' ' }] }],
+        });
+      }
+      continue;
+    }
+
+    // 見出し（# / ## はヘッダーブロック、それ以下は太字のセクション）
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      const text = heading[2].replace(/\*\*/g, '').trim();
+      // 空のヘッダーはSlackが受け付けないため出力しない
+      if (!text) {
+        continue;
+      }
+      if (heading[1].length <= 2) {
+        blocks.push({
+          type: 'header',
+          text: { type: 'plain_text', text: text.substring(0, MAX_HEADER_LENGTH), emoji: true },
+        });
+      } else {
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*${text}*` } });
+      }
+      continue;
+    }
+
+    // 水平線
+    if (DIVIDER_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'divider' });
+      continue;
+    }
+
+    // 表（ヘッダー行の次に区切り行がある場合のみ）
+    if (TABLE_ROW_PATTERN.test(line) && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1])) {
+      flushParagraph();
+      const tableLines = collect(i, (l) => TABLE_ROW_PATTERN.test(l));
+      i += tableLines.length - 1;
+      for (const chunk of chunkText(formatTable(tableLines), MAX_TEXT_LENGTH - 8)) {
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `\`\`\`\n${chunk}\n\`\`\`` } });
+      }
+      continue;
+    }
+
+    // リスト（インデントされた継続行を含む）
+    if (LIST_ITEM_PATTERN.test(line)) {
+      flushParagraph();
+      const listLines = collect(i, (l) => LIST_ITEM_PATTERN.test(l) || /^\s{2,}\S/.test(l));
+      i += listLines.length - 1;
+      blocks.push(renderList(listLines));
+      continue;
+    }
+
+    // 引用
+    if (QUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quoteLines = collect(i, (l) => QUOTE_PATTERN.test(l));
+      i += quoteLines.length - 1;
+      const text = quoteLines.map((l) => l.match(QUOTE_PATTERN)![1]).join('\n');
+      blocks.push({ type: 'rich_text', elements: [{ type: 'rich_text_quote', elements: parseInline(text) }] });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+/**
+ * コンテキストブロックを生成（ファイル操作一覧などの補足情報用）
+ * @param lines 表示する行（mrkdwn形式）
+ * @returns コンテキストブロック
+ */
+export function renderContextBlock(lines: string[]): ContextBlock {
+  let text = lines.join('\n');
+  if (text.length > MAX_TEXT_LENGTH) {
+    text = text.substring(0, MAX_TEXT_LENGTH - 10) + '\n...(省略)';
+  }
+  return { type: 'context', elements: [{ type: 'mrkdwn', text }] };
+}
+
+/**
+ * メッセージ用のブロック一覧を生成
+ * @param markdown 本文（Markdown形式）
+ * @param context コンテキストブロックに表示する行
+ * @returns ブロック一覧。ブロック数の上限を超える場合はundefined（テキストのみで投稿する）
+ */
+export function renderMessageBlocks(markdown: string, context?: string[]): KnownBlock[] | undefined {
+  const blocks = renderMarkdownToBlocks(markdown);
+  if (context && context.length > 0) {
+    blocks.push(renderContextBlock(context));
+  }
+  if (blocks.length === 0 || blocks.length > MAX_BLOCKS) {
+    return undefined;
+  }
+  return blocks;
+}
@@ -0,0 +1,165 @@
+/**
+ * cron式の解析
+ * 5フィールド形式（分 時 日 月 曜日）に対応する。各フィールドで * / 範囲（1-5）/ リスト（1,3）/ 間隔（*\/15, 0-30/10）を使用できる
+ */
+
+/**
+ * 解析済みのcron式
+ */
+export interface CronExpression {
+  /** 分（0-59） */
+  minutes: Set<number>;
+  /** 時（0-23） */
+  hours: Set<number>;
+  /** 日（1-31） */
+  daysOfMonth: Set<number>;
+  /** 月（1-12） */
+  months: Set<number>;
+  /** 曜日（0-6、0が日曜日） */
+  daysOfWeek: Set<number>;
+  /** 日が * 以外（*\/2 なども * とみなす）で指定されているか */
+  dayOfMonthRestricted: boolean;
+  /** 曜日が * 以外（*\/2 なども * とみなす）で指定されているか */
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * フィールドの定義
+ */
+interface FieldSpec {
+  /** フィールド名（エラーメッセージ用） */
+  name: string;
+  /** 最小値 */
+  min: number;
+  /** 最大値 */
+  max: number;
+}
+
+/** フィールドの定義（記述順） */
+const FIELDS: FieldSpec[] = [
+  { name: '分', min: 0, max: 59 },
+  { name: '時', min: 0, max: 23 },
+  { name: '日', min: 1, max: 31 },
+  { name: '月', min: 1, max: 12 },
+  // 7も日曜日として受け付ける
+  { name: '曜日', min: 0, max: 7 },
+];
+
+/**
+ * 数値を解析
+ * @param value 文字列
+ * @param spec フィールドの定義
+ * @returns 数値
+ * @throws 範囲外・数値でない場合
+ */
+function parseNumber(value: string, spec: FieldSpec): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${spec.name}の値が不正です: ${value}`);
+  }
+  const num = parseInt(value, 10);
+  if (num < spec.min || num > spec.max) {
+    throw new Error(`${spec.name}は ${spec.min}〜${spec.max} で指定してください: ${value}`);
+  }
+  return num;
+}
+
+/**
+ * 1フィールドを解析
+ * @param field フィールドの文字列
+ * @param spec フィールドの定義
+ * @returns 該当する値の集合
+ * @throws 形式が不正な場合
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const pieces = part.split('/');
+    if (pieces.length > 2) {
+      throw new Error(`${spec.name}の間隔が不正です: ${part}`);
+    }
+    const [range, stepText] = pieces;
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...spec, min: 1, max: spec.max + 1 });
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const bounds = range.split('-');
+      if (bounds.length !== 2) {
+        throw new Error(`${spec.name}の範囲が不正です: ${range}`);
+      }
+      const [from, to] = bounds;
+      start = parseNumber(from, spec);
+      end = parseNumber(to, spec);
+      if (start > end) {
+        throw new Error(`${spec.name}の範囲が不正です: ${range}`);
+      }
+    } else {
+      start = parseNumber(range, spec);
+      // "5/10" は5から最大値まで10おき
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * cron式を解析
+ * @param expression cron式（例: "0 9 * * 1-5"）
+ * @returns 解析済みのcron式
+ * @throws 形式が不正な場合
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`5つのフィールド（分 時 日 月 曜日）で指定してください: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // 一般的なcronと同様に、* で始まるフィールドは制限なしとして扱う
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * 日時がcron式に一致するか判定（ローカル時刻）
+ * 日と曜日の両方が指定されている場合は、どちらかに一致すればよい（一般的なcronと同じ）
+ * @param cron 解析済みのcron式
+ * @param date 日時
+ * @returns 一致する場合true
+ */
+export function matchesCron(cron: CronExpression, date: Date): boolean {
+  if (
+    !cron.minutes.has(date.getMinutes()) ||
+    !cron.hours.has(date.getHours()) ||
+    !cron.months.has(date.getMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
@@ -0,0 +1,63 @@
+/**
+ * 時間の長さの解析・表示
+ * 「90s」「15m」「1h」「1h30m」のように単位（s / m / h）付きで指定する。単位を省略した場合は分とみなす
+ */
+
+/** 単位ごとのミリ秒 */
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/** 単位付きの時間の長さのパターン */
+const DURATION_PATTERN = /^(?:\d+[smh])+$/;
+
+/**
+ * 時間の長さを解析
+ * @param text 時間の長さ（例: 15m, 1h30m, 90s, 10）
+ * @returns ミリ秒
+ * @throws 形式が不正な場合、または0の場合
+ */
+export function parseDuration(text: string): number {
+  const value = text.trim().toLowerCase();
+  let ms = 0;
+  if (/^\d+$/.test(value)) {
+    ms = parseInt(value, 10) * UNIT_MS.m;
+  } else if (DURATION_PATTERN.test(value)) {
+    for (const [, amount, unit] of value.matchAll(/(\d+)([smh])/g)) {
+      ms += parseInt(amount, 10) * UNIT_MS[unit];
+    }
+  } else {
+    throw new Error(`時間の形式が不正です: ${text}（例: 90s, 15m, 1h）`);
+  }
+  if (ms <= 0) {
+    throw new Error(`時間は0より大きい値で指定してください: ${text}`);
+  }
+  return ms;
+}
+
+/**
+ * 時間の長さをフォーマット
+ * タイムアウトなどの設定値と、経過時間・所要時間の表示の両方に使う。1秒未満は切り捨てる
+ * @param ms ミリ秒
+ * @returns フォーマット済み文字列（例: 1時間30分、15分、1分5秒、5秒）。0の場合は 0秒
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const parts: string[] = [];
+  if (hours > 0) {
+    parts.push(`${hours}時間`);
+  }
+  if (minutes > 0) {
+    parts.push(`${minutes}分`);
+  }
+  if (seconds > 0 || parts.length === 0) {
+    parts.push(`${seconds}秒`);
+  }
+  return parts.join('');
+}
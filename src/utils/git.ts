@@ -0,0 +1,61 @@
+/**
+ * gitコマンド実行ユーティリティ
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/** gitコマンドのタイムアウト（ミリ秒） */
+const GIT_TIMEOUT_MS = 60000;
+
+/** 標準出力の最大サイズ（バイト） */
+const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024;
+
+/**
+ * gitコマンドの実行オプション
+ */
+export interface GitOptions {
+  /** 追加の環境変数 */
+  env?: Record<string, string>;
+  /** 標準出力の最大サイズ（バイト） */
+  maxBuffer?: number;
+}
+
+/**
+ * gitコマンドを実行
+ * @param cwd 実行ディレクトリ
+ * @param args 引数
+ * @param options 実行オプション
+ * @returns 標準出力
+ * @throws コマンドが失敗した場合（標準エラー出力をメッセージに含める）
+ */
+export async function runGit(cwd: string, args: string[], options: GitOptions = {}): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+      env: options.env ? { ...process.env, ...options.env } : undefined,
+    });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} ${args[1] ?? ''} 失敗: ${stderr || (err as Error).message}`);
+  }
+}
+
+/**
+ * 現在のブランチ名を取得
+ * @param cwd 実行ディレクトリ
+ * @returns ブランチ名（detached HEADの場合は短縮したコミットハッシュ）
+ * @throws gitリポジトリでない場合
+ */
+export async function getCurrentBranch(cwd: string): Promise<string> {
+  try {
+    return (await runGit(cwd, ['symbolic-ref', '--short', 'HEAD'])).trim();
+  } catch {
+    return (await runGit(cwd, ['rev-parse', '--short', 'HEAD'])).trim();
+  }
+}
@@ -5,6 +5,15 @@
 
 type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
 
+/** ログレベルの優先度（SILENTは何も出力しない） */
+const LEVEL_PRIORITY: Record<LogLevel | 'SILENT', number> = {
+  DEBUG: 0,
+  INFO: 1,
+  WARN: 2,
+  ERROR: 3,
+  SILENT: 4,
+};
+
 interface LogEntry {
   timestamp: string;
   level: LogLevel;
@@ -40,6 +49,12 @@ function getCallerLocation(): string {
  * @param data 追加データ
  */
 function log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+  // 環境変数 LOG_LEVEL より低いレベルのログは出力しない（デフォルトはすべて出力）
+  const minLevel = (process.env.LOG_LEVEL ?? '').toUpperCase() as LogLevel | 'SILENT';
+  if (LEVEL_PRIORITY[level] < (LEVEL_PRIORITY[minLevel] ?? 0)) {
+    return;
+  }
+
   const entry: LogEntry = {
     timestamp: new Date().toISOString(),
     level,
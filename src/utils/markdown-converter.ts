@@ -27,13 +27,13 @@ export function convertMarkdownToMrkdwn(markdown: string): string {
   // リンク: [text](url) → <url|text>
   result = result.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<$2|$1>');
 
+  // イタリック: *text* → _text_ （ボールド変換前に実行）
+  // 単独の*で囲まれたテキストのみ変換（変換後のボールドを斜体にしないため）
+  result = result.replace(/(?<!\*)\*(?!\*)([^*]+)(?<!\*)\*(?!\*)/g, '_$1_');
+
   // ボールド: **text** → *text*
   result = result.replace(/\*\*([^*]+)\*\*/g, '*$1*');
 
-  // イタリック: *text* → _text_ （ボールド変換後に実行）
-  // 単独の*で囲まれたテキストのみ変換（**は既に変換済み）
-  result = result.replace(/(?<!\*)\*([^*]+)\*(?!\*)/g, '_$1_');
-
   // 取り消し線: ~~text~~ → ~text~
   result = result.replace(/~~([^~]+)~~/g, '~$1~');
 
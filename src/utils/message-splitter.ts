@@ -0,0 +1,167 @@
+/**
+ * 長いメッセージを分割するユーティリティ
+ * 段落・コードブロックの境界で分割し、``` のフェンスを途中で壊さない
+ */
+
+/**
+ * 分割単位（段落またはコードブロック）
+ */
+interface Unit {
+  /** 本文 */
+  text: string;
+  /** コードブロックの場合は開始フェンス行（```ts など） */
+  fence?: string;
+}
+
+/**
+ * フェンス行か判定
+ * @param line 行
+ * @returns フェンス行の場合true
+ */
+function isFenceLine(line: string): boolean {
+  return line.trimStart().startsWith('```');
+}
+
+/**
+ * テキストを段落とコードブロックに分解
+ * @param text Markdownテキスト
+ * @returns 分割単位一覧
+ */
+function toUnits(text: string): Unit[] {
+  const units: Unit[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = (): void => {
+    if (paragraph.length > 0) {
+      units.push({ text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (isFenceLine(line)) {
+      flushParagraph();
+      const block = [line];
+      i++;
+      while (i < lines.length && !isFenceLine(lines[i])) {
+        block.push(lines[i]);
+        i++;
+      }
+      // 閉じフェンスがない場合は補う
+      block.push(i < lines.length ? lines[i] : '```');
+      units.push({ text: block.join('\n'), fence: line.trim() });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  return units;
+}
+
+/**
+ * 文字数で強制的に分割
+ * @param text テキスト
+ * @param maxLength 最大文字数
+ * @returns 分割結果
+ */
+function hardSplit(text: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  for (let i = 0; i < text.length; i += maxLength) {
+    parts.push(text.substring(i, i + maxLength));
+  }
+  return parts;
+}
+
+/**
+ * 行単位で詰めて分割（1行が上限を超える場合は強制分割）
+ * @param lines 行一覧
+ * @param maxLength 最大文字数
+ * @returns 分割結果
+ */
+function packLines(lines: string[], maxLength: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  // 空行から始まる断片も保持するため、文字列の有無ではなくフラグで判定する
+  let started = false;
+
+  for (const line of lines) {
+    const pieces = line.length > maxLength ? hardSplit(line, maxLength) : [line];
+    for (const piece of pieces) {
+      if (started && current.length + 1 + piece.length > maxLength) {
+        parts.push(current);
+        current = '';
+        started = false;
+      }
+      current = started ? `${current}\n${piece}` : piece;
+      started = true;
+    }
+  }
+  if (started) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+/**
+ * 上限を超える分割単位を分割
+ * コードブロックは各断片をフェンスで閉じ、次の断片で同じ言語指定で開き直す
+ * @param unit 分割単位
+ * @param maxLength 最大文字数
+ * @returns 分割結果
+ */
+function splitUnit(unit: Unit, maxLength: number): string[] {
+  if (!unit.fence) {
+    return packLines(unit.text.split('\n'), maxLength);
+  }
+
+  const lines = unit.text.split('\n');
+  const body = lines.slice(1, -1);
+  const closing = '```';
+  const overhead = unit.fence.length + closing.length + 2;
+  const bodyMax = Math.max(1, maxLength - overhead);
+
+  return packLines(body, bodyMax).map((part) => `${unit.fence}\n${part}\n${closing}`);
+}
+
+/**
+ * メッセージを上限文字数以下に分割
+ * 段落・コードブロックの境界で区切り、可能な限り1つのメッセージにまとめる
+ * @param text Markdownテキスト
+ * @param maxLength 1メッセージの最大文字数
+ * @returns 分割されたメッセージ一覧
+ */
+export function splitMessage(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const unit of toUnits(text)) {
+    const pieces = unit.text.length > maxLength ? splitUnit(unit, maxLength) : [unit.text];
+    for (const piece of pieces) {
+      if (current && current.length + 2 + piece.length > maxLength) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,67 @@
+/**
+ * HTTP APIのE2Eテスト
+ * HTTP APIから実行を開始し、クライアントの権限に応じた応答を確認する
+ */
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { getFreePort, startHarness, TEST_CHANNEL, TEST_PROJECT, waitFor } from './harness';
+
+const ADMIN_TOKEN = 'admin-token-0123456789';
+const LIMITED_TOKEN = 'limited-token-0123456789';
+
+/**
+ * HTTP APIを有効にしてテスト環境を起動
+ * @returns テスト環境と、HTTP APIを呼び出す関数
+ */
+async function startApiHarness() {
+  const port = await getFreePort();
+  const h = await startHarness({
+    api: {
+      port,
+      clients: {
+        admin: { name: 'admin', token: ADMIN_TOKEN },
+        limited: { name: 'limited', token: LIMITED_TOKEN, projects: ['other'] },
+      },
+    },
+  });
+  const call = async (token: string, method: string, pathname: string, body?: string) => {
+    const res = await fetch(`http://127.0.0.1:${port}${pathname}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body,
+    });
+    return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+  };
+  return { h, call };
+}
+
+test('ジョブ一覧はクライアントに許可されたプロジェクトのジョブのみ返す', async (t) => {
+  const { h, call } = await startApiHarness();
+  t.after(() => h.stop());
+
+  const started = await call(ADMIN_TOKEN, 'POST', '/api/runs', JSON.stringify({ project: TEST_PROJECT, prompt: '[slow] 調べて' }));
+  assert.equal(started.status, 202);
+  await waitFor(() => h.invocations().length > 0);
+
+  const all = await call(ADMIN_TOKEN, 'GET', '/api/jobs');
+  assert.equal((all.body.running as Array<{ projectName: string }>)[0].projectName, TEST_PROJECT);
+  assert.equal((all.body.running as Array<{ channelId: string }>)[0].channelId, TEST_CHANNEL);
+
+  const limited = await call(LIMITED_TOKEN, 'GET', '/api/jobs');
+  assert.deepEqual(limited.body, { running: [], pending: [] });
+
+  // 停止後に回答を投稿しようとしないよう、完了を待つ
+  await h.waitForReply(started.body.threadTs as string, (m) => m.text?.includes('echo:') ?? false);
+});
+
+test('リクエストボディがJSONオブジェクトでない場合は400を返す', async (t) => {
+  const { h, call } = await startApiHarness();
+  t.after(() => h.stop());
+
+  for (const body of ['null', '[]', '"demo"']) {
+    const res = await call(ADMIN_TOKEN, 'POST', '/api/runs', body);
+    assert.equal(res.status, 400, body);
+  }
+  assert.equal(h.invocations().length, 0);
+});
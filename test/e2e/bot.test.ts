@@ -0,0 +1,358 @@
+/**
+ * BotのE2Eテスト
+ * 擬似Slack Web APIサーバーにユーザーの投稿を追加し、Botの投稿と擬似Claude Code CLIの呼び出しを確認する
+ */
+
+import { strict as assert } from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import { test } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+import { startHarness, TEST_CHANNEL, TEST_PROJECT, waitFor } from './harness';
+
+test('新規コマンドでCLIを実行し、「処理中...」メッセージを回答で置き換える', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo READMEを要約して');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo:') ?? false);
+
+  assert.match(reply.text ?? '', /echo: READMEを要約して/);
+  // 回答は新しい投稿ではなく「処理中...」メッセージの更新で表示する
+  assert.equal(h.slack.getBotReplies(TEST_CHANNEL, ts).length, 1);
+  assert.equal(h.slack.getCalls('chat.update').length > 0, true);
+
+  const [invocation] = h.invocations();
+  assert.equal(invocation.cwd, fs.realpathSync(h.projectDir));
+  assert.equal(invocation.resume, undefined);
+  assert.deepEqual(invocation.options['--output-format'], 'stream-json');
+});
+
+test('スレッドへの返信は --resume で同じセッションを継続する', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo テストを実行して');
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: テストを実行して') ?? false);
+
+  h.slack.postUserMessage(TEST_CHANNEL, '失敗したテストを直して', { threadTs: ts });
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo: 失敗したテストを直して') ?? false);
+
+  const invocations = h.invocations();
+  assert.equal(invocations.length, 2);
+  assert.match(invocations[1].resume ?? '', /^session-/);
+  assert.match(reply.text ?? '', new RegExp(`resumed: ${invocations[1].resume}`));
+});
+
+test('デフォルトプロジェクトのチャンネルではメンションで実行できる', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '<@UBOT> main関数を説明して');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo:') ?? false);
+
+  assert.match(reply.text ?? '', /main関数を説明して/);
+});
+
+test('実行オプションをCLIに渡し、スレッド内の以降の実行にも適用する', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo --model opus --max-turns 20 --timeout 10m 調べて');
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: 調べて') ?? false);
+
+  h.slack.postUserMessage(TEST_CHANNEL, '--max-turns 5 続けて', { threadTs: ts });
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: 続けて') ?? false);
+
+  const [first, second] = h.invocations();
+  assert.equal(first.options['--model'], 'opus');
+  assert.equal(first.options['--max-turns'], '20');
+  assert.equal(second.options['--model'], 'opus');
+  assert.equal(second.options['--max-turns'], '5');
+});
+
+test('実行中に変更した実行オプションは、実行完了後も次の返信に適用される', async (t) => {
+  const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'slack-claude-e2e-db-')), 'sessions.db');
+  const h = await startHarness({ storage: { type: 'sqlite', path: dbPath } });
+  t.after(async () => {
+    await h.stop();
+    fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+  });
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo [slow] 調べて');
+  await waitFor(() => h.invocations().length > 0);
+  h.slack.postUserMessage(TEST_CHANNEL, '--model opus', { threadTs: ts });
+  await h.waitForReply(ts, (m) => m.text?.includes('実行オプションを変更しました') ?? false);
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: [slow] 調べて') ?? false);
+
+  h.slack.postUserMessage(TEST_CHANNEL, '続けて', { threadTs: ts });
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: 続けて') ?? false);
+  assert.equal(h.invocations()[1].options['--model'], 'opus');
+});
+
+test('プロジェクトの上限を超える実行オプションはエラーを返し、CLIは実行しない', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo --timeout 2h 調べて');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('エラー') ?? false);
+
+  assert.match(reply.text ?? '', /タイムアウトは 30分 以下/);
+  assert.equal(h.invocations().length, 0);
+});
+
+test('テンプレートを引数・ユーザー名・チャンネル名で展開し、システムプロンプトを重ねて渡す', async (t) => {
+  const h = await startHarness({
+    claude: { postDiff: false, systemPrompt: '日本語で回答してください。' },
+    channels: {
+      [TEST_CHANNEL]: { channelId: TEST_CHANNEL, defaultProject: TEST_PROJECT, systemPrompt: 'このチャンネルはレビュー用です。' },
+    },
+    templates: {
+      review: { name: 'review', prompt: '{{user}} の依頼（#{{channel}}）: {{1}} をレビューして。観点: {{args}}' },
+    },
+  });
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo /review src/auth セキュリティ');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo:') ?? false);
+
+  assert.match(reply.text ?? '', /echo: hanako\.y の依頼（#ch-ctest）: src\/auth をレビューして。観点: src\/auth セキュリティ/);
+  const [invocation] = h.invocations();
+  assert.equal(invocation.options['--system-prompt'], '日本語で回答してください。\n\nこのチャンネルはレビュー用です。');
+});
+
+test('テンプレートの引数が足りない場合はエラーを返し、設定にないスラッシュコマンドはそのままCLIに渡す', async (t) => {
+  const h = await startHarness({
+    templates: { review: { name: 'review', prompt: '{{1}} をレビューして' } },
+  });
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo /review');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('エラー') ?? false);
+  assert.match(reply.text ?? '', /引数が1個必要です/);
+
+  const other = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo /compact');
+  await h.waitForReply(other, (m) => m.text?.includes('echo: /compact') ?? false);
+  assert.equal(h.invocations().length, 1);
+});
+
+test('チャンネルで実行権限のないユーザーはBotのコマンドを使用できない', async (t) => {
+  const h = await startHarness({
+    channels: {
+      [TEST_CHANNEL]: { channelId: TEST_CHANNEL, defaultProject: TEST_PROJECT, allowedUsers: ['UALLOWED'] },
+    },
+  });
+  t.after(() => h.stop());
+
+  const denied = h.slack.postUserMessage(TEST_CHANNEL, '!claude usage');
+  const reply = await h.waitForReply(denied, (m) => m.text?.includes('エラー') ?? false);
+  assert.match(reply.text ?? '', /権限がありません/);
+
+  const allowed = h.slack.postUserMessage(TEST_CHANNEL, '!claude usage', { user: 'UALLOWED' });
+  await h.waitForReply(allowed, (m) => m.text?.includes('利用状況') ?? false);
+});
+
+test('プロジェクトの allowedUsers に含まれないユーザーの依頼は拒否し、CLIは実行しない', async (t) => {
+  const h = await startHarness({ project: { allowedUsers: ['UALLOWED'] } });
+  t.after(() => h.stop());
+
+  const denied = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo こんにちは');
+  const reply = await h.waitForReply(denied, (m) => m.text?.includes('エラー') ?? false);
+  assert.match(reply.text ?? '', /プロジェクト "demo" を実行する権限がありません/);
+  assert.equal(h.invocations().length, 0);
+
+  const allowed = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo こんばんは', { user: 'UALLOWED' });
+  await h.waitForReply(allowed, (m) => m.text?.includes('echo: こんばんは') ?? false);
+  assert.equal(h.invocations().length, 1);
+});
+
+test('1日の利用上限に達した場合は実行せずにエラーを返す', async (t) => {
+  const h = await startHarness({ budgets: { daily: { perUser: 0.01 } } });
+  t.after(() => h.stop());
+
+  // 擬似CLIは1回の実行で $0.0123 を報告する
+  const first = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo こんにちは');
+  await h.waitForReply(first, (m) => m.text?.includes('echo: こんにちは') ?? false);
+
+  const second = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo もう一度');
+  const reply = await h.waitForReply(second, (m) => m.text?.includes('エラー') ?? false);
+  assert.match(reply.text ?? '', /本日の利用上限（ユーザーごと .+）に達したため実行できません/);
+  assert.equal(h.invocations().length, 1);
+});
+
+test('存在しないプロジェクトを指定するとエラーを返し、CLIは実行しない', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude unknown 何かして');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('見つかりません') ?? false);
+
+  assert.match(reply.text ?? '', /unknown/);
+  assert.equal(h.invocations().length, 0);
+});
+
+test('CLIが失敗した場合はエラー内容をスレッドに投稿する', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo [fail] ビルドして');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('エラー') ?? false);
+
+  assert.match(reply.text ?? '', /simulated failure/);
+});
+
+test('添付画像をダウンロードしてCLIに渡し、実行後に削除する', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const image = h.slack.addFile('screen.png', 'image/png', Buffer.alloc(2048, 1));
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo このデザインを実装して', { files: [image] });
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo:') ?? false);
+
+  assert.match(reply.text ?? '', /image: screen\.png \(2048 bytes\)/);
+  const [invocation] = h.invocations();
+  assert.equal(invocation.images.length, 1);
+  await waitFor(() => !fs.existsSync(invocation.images[0]));
+});
+
+test('画像以外の添付ファイルは保存先をプロンプトで伝え、上限を超えるファイルは通知する', async (t) => {
+  const h = await startHarness({ attachments: { maxSizeMB: { pdf: 0 } } });
+  t.after(() => h.stop());
+
+  const log = h.slack.addFile('error.log', 'text/plain', 'TypeError: x is undefined');
+  const pdf = h.slack.addFile('spec.pdf', 'application/pdf', '%PDF-1.4');
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo [read] このエラーを調べて', { files: [log, pdf] });
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo:') ?? false);
+
+  assert.match(reply.text ?? '', /file: error\.log = TypeError: x is undefined/);
+  const notice = h.slack.getBotReplies(TEST_CHANNEL, ts).find((m) => m.text?.includes('読み込まずに実行します'));
+  assert.match(notice?.text ?? '', /spec\.pdf/);
+  const addDirs = h.invocations()[0].options['--add-dir'];
+  assert.ok(Array.isArray(addDirs) && addDirs.length === 1);
+});
+
+test('応答が止まった添付ファイルのダウンロードは !claude cancel で中断できる', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  const file = h.slack.addFile('huge.log', 'text/plain', Buffer.alloc(4096, 'a'), { stall: true });
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo このログを調べて', { files: [file] });
+  await waitFor(() => h.slack.downloads.includes(file.id));
+
+  h.slack.postUserMessage(TEST_CHANNEL, '!claude cancel', { threadTs: ts });
+  await h.waitForReply(ts, (m) => m.text?.includes('キャンセルしました') ?? false);
+  assert.equal(h.invocations().length, 0);
+});
+
+test('Slack APIがレート制限を返しても再試行して処理を続ける', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  h.slack.failNext('chat.postMessage', { error: 'ratelimited' });
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo こんにちは');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo: こんにちは') ?? false);
+
+  assert.ok(reply);
+  assert.ok(h.slack.getCalls('chat.postMessage').length >= 2);
+});
+
+test('Slackがブロックを受け付けない場合はテキストのみで回答を投稿し直す', async (t) => {
+  const h = await startHarness();
+  t.after(() => h.stop());
+
+  h.slack.failNext('chat.update', { error: 'invalid_blocks' });
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo こんにちは');
+  const reply = await h.waitForReply(ts, (m) => m.text?.includes('echo: こんにちは') ?? false);
+
+  const updates = h.slack.getCalls('chat.update');
+  assert.equal(updates.length, 2);
+  assert.ok(updates[0].params.blocks);
+  assert.deepEqual(reply.blocks ?? [], []);
+  assert.equal(h.slack.getBotReplies(TEST_CHANNEL, ts).some((m) => m.text?.includes('処理中')), false);
+});
+
+test('リアクションで状態を表示するチャンネルでは「処理中...」を投稿せず、依頼メッセージのリアクションを付け替える', async (t) => {
+  const h = await startHarness({
+    channels: {
+      [TEST_CHANNEL]: { channelId: TEST_CHANNEL, defaultProject: TEST_PROJECT, statusIndicator: 'reactions' },
+    },
+  });
+  t.after(() => h.stop());
+  const reactionsOf = (ts: string): string[] =>
+    (h.slack.getMessages(TEST_CHANNEL).find((m) => m.ts === ts)?.reactions ?? []).map((r) => r.name);
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo READMEを要約して');
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: READMEを要約して') ?? false);
+  // 新しいリアクションを付けてから前のリアクションを外すため、付け替えの完了まで待つ
+  await waitFor(() => reactionsOf(ts).join() === 'white_check_mark');
+
+  assert.deepEqual(reactionsOf(ts), ['white_check_mark']);
+  const added = h.slack.getCalls('reactions.add').map((call) => call.params.name);
+  assert.deepEqual(added, ['eyes', 'white_check_mark']);
+  assert.equal(h.slack.getBotReplies(TEST_CHANNEL, ts).some((m) => m.text?.includes('処理中')), false);
+  assert.equal(h.slack.getCalls('chat.update').length, 0);
+
+  // 失敗した依頼はスレッドへの返信メッセージに ❌ を付ける
+  const reply = h.slack.postUserMessage(TEST_CHANNEL, '[fail] ビルドして', { threadTs: ts });
+  await h.waitForReply(ts, (m) => m.text?.includes('simulated failure') ?? false);
+  await waitFor(() => reactionsOf(reply).join() === 'x');
+  assert.deepEqual(reactionsOf(reply), ['x']);
+  assert.deepEqual(reactionsOf(ts), ['white_check_mark']);
+});
+
+test('セッション終了時、未コミットの変更があるworktreeは削除せずに残す', async (t) => {
+  const h = await startHarness({ project: { worktree: true } });
+  t.after(() => h.stop());
+  const git = (...args: string[]): string => execFileSync('git', args, { cwd: h.projectDir, encoding: 'utf-8' });
+  git('init', '-q');
+  git('add', '-A');
+  git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'init');
+
+  // 変更のないworktreeは削除する
+  const clean = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo READMEを読んで');
+  await h.waitForReply(clean, (m) => m.text?.includes('echo: READMEを読んで') ?? false);
+  const cleanDir = h.invocations()[0].cwd;
+  h.slack.postUserMessage(TEST_CHANNEL, '!claude close', { threadTs: clean });
+  await h.waitForReply(clean, (m) => m.text?.includes('worktreeを削除しました') ?? false);
+  assert.equal(fs.existsSync(cleanDir), false);
+
+  const dirty = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo [write] ファイルを作って');
+  await h.waitForReply(dirty, (m) => m.text?.includes('echo: [write] ファイルを作って') ?? false);
+  const dirtyDir = h.invocations()[1].cwd;
+  h.slack.postUserMessage(TEST_CHANNEL, '!claude close', { threadTs: dirty });
+  await h.waitForReply(dirty, (m) => m.text?.includes('未コミットの変更があるため') ?? false);
+  assert.equal(fs.readFileSync(path.join(dirtyDir, 'claude-edit.txt'), 'utf-8'), 'edited\n');
+  assert.match(git('worktree', 'list'), new RegExp(path.basename(dirtyDir)));
+});
+
+test('ツール実行の承認は依頼したユーザーの ✅ のみ受け付け、他のユーザーのリアクションは無視する', async (t) => {
+  const h = await startHarness({ project: { approval: true } });
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo [approve] pushして');
+  const request = await h.waitForReply(ts, (m) => m.text?.includes('ツール実行の承認が必要です') ?? false);
+  assert.match(request.text ?? '', /git push/);
+
+  // 依頼者以外の ✅ はポーリングで確認されても承認にならない
+  h.slack.addReaction(TEST_CHANNEL, request.ts, 'white_check_mark', 'UOTHER');
+  const polled = h.slack.getCalls('reactions.get').length;
+  await waitFor(() => h.slack.getCalls('reactions.get').length >= polled + 3);
+  assert.equal(h.slack.getBotReplies(TEST_CHANNEL, ts).some((m) => m.text?.includes('approval:')), false);
+  assert.equal(h.slack.getCalls('chat.update').filter((call) => call.params.ts === request.ts).length, 0);
+
+  h.slack.addReaction(TEST_CHANNEL, request.ts, 'white_check_mark');
+  await h.waitForReply(ts, (m) => m.text?.includes('approval: allow') ?? false);
+  await waitFor(() => request.text?.includes('さんが承認しました'));
+  assert.match(request.text ?? '', /<@UHUMAN> さんが承認しました/);
+});
+
+test('ツール実行の承認がタイムアウトした場合は拒否する', async (t) => {
+  const h = await startHarness({ project: { approval: true }, claude: { postDiff: false, approvalTimeout: 300 } });
+  t.after(() => h.stop());
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo [approve] pushして');
+  await h.waitForReply(ts, (m) => m.text?.includes('approval: deny (承認がタイムアウトしました)') ?? false);
+  const request = h.slack.getBotReplies(TEST_CHANNEL, ts).find((m) => m.text?.includes('git push'));
+  assert.match(request?.text ?? '', /タイムアウトのため拒否しました/);
+});
@@ -0,0 +1,9 @@
+/**
+ * E2Eテスト用の環境変数
+ * Botのモジュールを読み込む前に設定する必要があるため、ハーネスの先頭で読み込む
+ */
+
+import * as path from 'path';
+
+process.env.CLAUDE_PATH = path.join(__dirname, 'fake-claude.js');
+process.env.LOG_LEVEL ??= 'SILENT';
@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+/**
+ * 擬似Claude Code CLI
+ * stream-json形式で決まった応答を出力し、呼び出された引数を FAKE_CLAUDE_LOG に1行ずつ記録する
+ *
+ * プロンプトに含まれる指示で動作を切り替える
+ * - [fail]  標準エラーに出力して終了コード1で終了
+ * - [slow]  応答まで1秒待つ（キャンセルのテスト用）
+ * - [read]  添付ファイル（プロンプト内のパス）の内容を応答に含める
+ * - [write] 作業ディレクトリに claude-edit.txt を作成する（未コミットの変更のテスト用）
+ * - [approve] 承認用MCPサーバー（--mcp-config）に `git push` の実行可否を問い合わせ、結果を応答に含める
+ */
+
+'use strict';
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+/** 値を取る引数 */
+const OPTIONS_WITH_VALUE = new Set([
+  '-p',
+  '--output-format',
+  '--resume',
+  '--system-prompt',
+  '--permission-mode',
+  '--mcp-config',
+  '--permission-prompt-tool',
+  '--model',
+  '--max-turns',
+]);
+
+/** 複数の値を取る引数 */
+const OPTIONS_WITH_VALUES = new Set(['--allowedTools', '--disallowedTools', '--add-dir']);
+
+/**
+ * 引数を解析
+ * 実際のCLI（commander）と同様に、複数の値を取る引数は次の `-` で始まる引数までのすべてを値とみなす。
+ * `--name=value` 形式は値を1つだけ取る
+ * @param {string[]} argv 引数一覧
+ * @returns {{ options: Record<string, string | string[] | true>, positional: string[] }}
+ */
+function parseArgs(argv) {
+  const options = {};
+  const positional = [];
+  /** 値を受け付けている複数値の引数 */
+  let variadic = null;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (variadic && !arg.startsWith('-')) {
+      options[variadic].push(arg);
+      continue;
+    }
+    variadic = null;
+
+    const eq = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = eq > 0 ? arg.slice(0, eq) : arg;
+    if (OPTIONS_WITH_VALUE.has(name)) {
+      options[name] = eq > 0 ? arg.slice(eq + 1) : argv[++i];
+    } else if (OPTIONS_WITH_VALUES.has(name)) {
+      options[name] ??= [];
+      if (eq > 0) {
+        options[name].push(arg.slice(eq + 1));
+      } else {
+        variadic = name;
+      }
+    } else if (arg.startsWith('--')) {
+      options[arg] = true;
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { options, positional };
+}
+
+/**
+ * 承認用MCPサーバーにツール実行の可否を問い合わせる
+ * @param {string} mcpConfig --mcp-config の値
+ * @returns {Promise<{ behavior: string, message?: string }>} permission-prompt-tool の応答
+ */
+async function requestApproval(mcpConfig) {
+  const [server] = Object.values(JSON.parse(mcpConfig).mcpServers);
+  const response = await fetch(server.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'approve', arguments: { tool_name: 'Bash', input: { command: 'git push' } } },
+    }),
+  });
+  const { result } = await response.json();
+  return JSON.parse(result.content[0].text);
+}
+
+/**
+ * stream-jsonの1行を出力
+ * @param {object} event イベント
+ */
+function emit(event) {
+  process.stdout.write(`${JSON.stringify(event)}\n`);
+}
+
+async function main() {
+  const { options, positional } = parseArgs(process.argv.slice(2));
+  const prompt = String(options['-p'] ?? '');
+  const resume = options['--resume'];
+  const images = positional.filter((arg) => path.isAbsolute(arg));
+
+  if (process.env.FAKE_CLAUDE_LOG) {
+    const entry = { args: process.argv.slice(2), cwd: process.cwd(), prompt, resume, images, options };
+    fs.appendFileSync(process.env.FAKE_CLAUDE_LOG, `${JSON.stringify(entry)}\n`);
+  }
+
+  if (prompt.includes('[fail]')) {
+    process.stderr.write('simulated failure\n');
+    process.exit(1);
+  }
+
+  const sessionId = typeof resume === 'string' ? resume : `session-${crypto.randomUUID()}`;
+  emit({ type: 'system', subtype: 'init', session_id: sessionId, cwd: process.cwd() });
+  emit({
+    type: 'assistant',
+    session_id: sessionId,
+    message: { content: [{ type: 'tool_use', name: 'Read', input: { file_path: path.join(process.cwd(), 'README.md') } }] },
+  });
+
+  if (prompt.includes('[write]')) {
+    fs.writeFileSync(path.join(process.cwd(), 'claude-edit.txt'), 'edited\n');
+  }
+
+  if (prompt.includes('[slow]')) {
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  const lines = [`echo: ${prompt.split('\n')[0]}`];
+  if (typeof resume === 'string') {
+    lines.push(`resumed: ${resume}`);
+  }
+  for (const image of images) {
+    lines.push(`image: ${path.basename(image)} (${fs.readFileSync(image).length} bytes)`);
+  }
+  if (prompt.includes('[read]')) {
+    for (const match of prompt.matchAll(/: (\/\S+)$/gm)) {
+      lines.push(`file: ${path.basename(match[1])} = ${fs.readFileSync(match[1], 'utf-8').trim()}`);
+    }
+  }
+  if (prompt.includes('[approve]')) {
+    const decision = await requestApproval(String(options['--mcp-config']));
+    lines.push(`approval: ${decision.behavior}${decision.message ? ` (${decision.message})` : ''}`);
+  }
+
+  emit({
+    type: 'result',
+    subtype: 'success',
+    result: lines.join('\n'),
+    session_id: sessionId,
+    total_cost_usd: 0.0123,
+    num_turns: 2,
+    duration_ms: 1500,
+    usage: { input_tokens: 100, output_tokens: 50, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  });
+}
+
+main();
@@ -0,0 +1,83 @@
+/**
+ * 擬似Socket Modeサーバー
+ * 接続時に hello を送り、events_api エンベロープでイベントを送信して、Botからの受信確認（ack）を記録する
+ * Botは slack.socketModeUrl でこのサーバーに直接接続する（apps.connections.open は呼ばない）
+ */
+
+import * as crypto from 'crypto';
+import WebSocket, { WebSocketServer } from 'ws';
+import { SlackEvent } from '../../src/services/slack-events';
+
+/**
+ * 擬似Socket Modeサーバー
+ */
+export class FakeSocketModeServer {
+  /** 受信確認されたエンベロープID */
+  readonly acks: string[] = [];
+  private server?: WebSocketServer;
+  private socket?: WebSocket;
+  private baseUrl = '';
+
+  /**
+   * WebSocketの接続URL（slack.socketModeUrl に指定する）
+   */
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * 待ち受けを開始
+   */
+  async start(): Promise<void> {
+    const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    const { port } = server.address() as { port: number };
+    this.baseUrl = `ws://127.0.0.1:${port}`;
+
+    server.on('connection', (socket) => {
+      this.socket = socket;
+      socket.on('message', (data) => {
+        const message = JSON.parse(data.toString()) as { envelope_id?: string };
+        if (message.envelope_id) {
+          this.acks.push(message.envelope_id);
+        }
+      });
+      socket.send(JSON.stringify({ type: 'hello', num_connections: 1 }));
+    });
+    this.server = server;
+  }
+
+  /**
+   * 待ち受けを停止
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.clients.forEach((client) => client.terminate());
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * イベントを events_api エンベロープで送信
+   * @param event Slackイベント
+   * @returns エンベロープID
+   * @throws Botが接続していない場合
+   */
+  sendEvent(event: SlackEvent): string {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      throw new Error('Botが接続していません');
+    }
+    const envelopeId = crypto.randomUUID();
+    this.socket.send(
+      JSON.stringify({
+        type: 'events_api',
+        envelope_id: envelopeId,
+        accepts_response_payload: false,
+        payload: { type: 'event_callback', event },
+      })
+    );
+    return envelopeId;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * E2Eテストのハーネス
+ * 擬似Slack Web APIサーバーと擬似Claude Code CLIを使ってBotを起動し、投稿やCLIの呼び出しを確認できるようにする
+ */
+
+// Claude CLIのパスはモジュール読み込み時に決まるため、Botより先に環境変数を設定する
+import './env';
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { SlackClaudeBot } from '../../src/index';
+import { AppConfig, ProjectConfig, SlackConfig } from '../../src/types';
+import { FAKE_BOT_TOKEN, FakeMessage, FakeSlackServer } from './fake-slack-server';
+
+/** テスト用のチャンネルID */
+export const TEST_CHANNEL = 'CTEST';
+
+/** テスト用のプロジェクト名 */
+export const TEST_PROJECT = 'demo';
+
+/** waitFor のデフォルトのタイムアウト（ミリ秒） */
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+
+/**
+ * 擬似Claude Code CLIの呼び出し記録
+ */
+export interface FakeClaudeInvocation {
+  /** 引数一覧 */
+  args: string[];
+  /** 作業ディレクトリ */
+  cwd: string;
+  /** プロンプト */
+  prompt: string;
+  /** --resume で指定されたセッションID */
+  resume?: string;
+  /** 画像ファイルのパス */
+  images: string[];
+  /** 解析したオプション */
+  options: Record<string, string | string[] | true>;
+}
+
+/**
+ * 起動したテスト環境
+ */
+export interface Harness {
+  /** 擬似Slack Web APIサーバー */
+  slack: FakeSlackServer;
+  /** Bot */
+  bot: SlackClaudeBot;
+  /** テスト用プロジェクトのディレクトリ */
+  projectDir: string;
+  /** 擬似Claude Code CLIの呼び出し記録を取得 */
+  invocations(): FakeClaudeInvocation[];
+  /**
+   * Botがチャンネルに投稿して処理を完了するまで待つ
+   * @param threadTs スレッドの親タイムスタンプ
+   * @param predicate 完了とみなす投稿の条件
+   * @returns 条件に一致した投稿
+   */
+  waitForReply(threadTs: string, predicate: (message: FakeMessage) => boolean): Promise<FakeMessage>;
+  /** Botと擬似サーバーを停止し、一時ファイルを削除 */
+  stop(): Promise<void>;
+}
+
+/**
+ * 条件が満たされるまで待つ
+ * @param check 条件を確認する関数（値を返した時点で完了）
+ * @param timeoutMs タイムアウト（ミリ秒）
+ * @returns checkが返した値
+ * @throws タイムアウトした場合
+ */
+export async function waitFor<T>(
+  check: () => T | undefined | null | false,
+  timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = check();
+    if (value) {
+      return value;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`${timeoutMs}ミリ秒以内に条件を満たしませんでした`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+/**
+ * 空いているローカルのポート番号を取得
+ * @returns ポート番号
+ */
+export async function getFreePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/**
+ * 上書きする設定
+ * slack は既定の設定（擬似サーバーのURLなど）に、project はテスト用プロジェクトの設定に項目ごとに重ねる
+ */
+export type HarnessOverrides = Partial<Omit<AppConfig, 'slack'>> & {
+  slack?: Partial<SlackConfig>;
+  project?: Partial<ProjectConfig>;
+};
+
+/**
+ * テスト環境を起動
+ * @param overrides 上書きする設定
+ * @returns 起動したテスト環境
+ */
+export async function startHarness(overrides: HarnessOverrides = {}): Promise<Harness> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'slack-claude-e2e-'));
+  const projectDir = path.join(workDir, 'project');
+  fs.mkdirSync(projectDir);
+  fs.writeFileSync(path.join(projectDir, 'README.md'), '# demo\n');
+
+  const claudeLog = path.join(workDir, 'claude.log');
+  process.env.FAKE_CLAUDE_LOG = claudeLog;
+
+  const slack = new FakeSlackServer();
+  await slack.start();
+
+  const { slack: slackOverrides, project: projectOverrides, ...rest } = overrides;
+  const config: AppConfig = {
+    slack: {
+      botToken: FAKE_BOT_TOKEN,
+      apiUrl: slack.url,
+      mode: 'polling',
+      pollingInterval: 100,
+      progressUpdateInterval: 60000,
+      ...slackOverrides,
+    },
+    projects: {
+      [TEST_PROJECT]: {
+        name: TEST_PROJECT,
+        path: projectDir,
+        worktreeDir: path.join(workDir, 'worktrees'),
+        ...projectOverrides,
+      },
+    },
+    channels: {
+      [TEST_CHANNEL]: { channelId: TEST_CHANNEL, defaultProject: TEST_PROJECT },
+    },
+    claude: { postDiff: false },
+    storage: { type: 'json', path: path.join(workDir, 'sessions.json') },
+    ...rest,
+  };
+
+  const bot = new SlackClaudeBot(config);
+  await bot.start();
+
+  return {
+    slack,
+    bot,
+    projectDir,
+    invocations: () =>
+      fs.existsSync(claudeLog)
+        ? fs
+            .readFileSync(claudeLog, 'utf-8')
+            .split('\n')
+            .filter(Boolean)
+            .map((line) => JSON.parse(line) as FakeClaudeInvocation)
+        : [],
+    waitForReply: (threadTs, predicate) =>
+      waitFor(() => slack.getBotReplies(TEST_CHANNEL, threadTs).find(predicate)),
+    stop: async () => {
+      await bot.stop();
+      await slack.stop();
+      fs.rmSync(workDir, { recursive: true, force: true });
+    },
+  };
+}
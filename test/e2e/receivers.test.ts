@@ -0,0 +1,91 @@
+/**
+ * イベント受信（Socket Mode / Events API）のE2Eテスト
+ * 擬似Socket ModeサーバーとEvents APIのHTTPリクエストでイベントを送り、Botの応答を確認する
+ */
+
+import { strict as assert } from 'assert';
+import * as crypto from 'crypto';
+import { test } from 'node:test';
+import { FakeSocketModeServer } from './fake-socket-mode-server';
+import { getFreePort, startHarness, TEST_CHANNEL } from './harness';
+import { FAKE_USER_ID } from './fake-slack-server';
+
+const SIGNING_SECRET = 'test-signing-secret';
+
+test('Socket Modeで受信したイベントに受信確認を返し、スレッドに回答する', async (t) => {
+  const socketMode = new FakeSocketModeServer();
+  await socketMode.start();
+  const h = await startHarness({
+    slack: { mode: 'socket', socketModeUrl: socketMode.url, fallbackToPolling: false },
+  });
+  t.after(async () => {
+    await h.stop();
+    await socketMode.stop();
+  });
+
+  // 擬似Slack APIにも投稿を追加し、Botがスレッドに返信できるようにする
+  const text = '!claude demo READMEを要約して';
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, text);
+  const envelopeId = socketMode.sendEvent({ type: 'message', channel: TEST_CHANNEL, user: FAKE_USER_ID, text, ts });
+
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: READMEを要約して') ?? false);
+  assert.deepEqual(socketMode.acks, [envelopeId]);
+  // 起動時の1回以外はポーリングしない
+  assert.equal(h.slack.getCalls('conversations.history').length, 1);
+});
+
+test('Events APIは署名が正しいリクエストのみ受け付ける', async (t) => {
+  const port = await getFreePort();
+  const h = await startHarness({
+    slack: { mode: 'events', signingSecret: SIGNING_SECRET, eventsPort: port, fallbackToPolling: false },
+  });
+  t.after(() => h.stop());
+
+  const send = async (ts: string, text: string, sign: (base: string) => string) => {
+    const body = JSON.stringify({
+      type: 'event_callback',
+      event: { type: 'message', channel: TEST_CHANNEL, user: FAKE_USER_ID, text, ts },
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const res = await fetch(`http://127.0.0.1:${port}/slack/events`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Slack-Request-Timestamp': timestamp,
+        'X-Slack-Signature': sign(`v0:${timestamp}:${body}`),
+      },
+      body,
+    });
+    return res.status;
+  };
+  const hmac = (secret: string) => (base: string) =>
+    `v0=${crypto.createHmac('sha256', secret).update(base).digest('hex')}`;
+
+  const forged = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo 偽の依頼');
+  assert.equal(await send(forged, '!claude demo 偽の依頼', hmac('wrong-secret')), 401);
+
+  const ts = h.slack.postUserMessage(TEST_CHANNEL, '!claude demo 正しい依頼');
+  assert.equal(await send(ts, '!claude demo 正しい依頼', hmac(SIGNING_SECRET)), 200);
+  await h.waitForReply(ts, (m) => m.text?.includes('echo: 正しい依頼') ?? false);
+
+  assert.equal(h.slack.getBotReplies(TEST_CHANNEL, forged).length, 0);
+  assert.equal(h.invocations().length, 1);
+});
+
+test('Events APIは古いタイムスタンプのリクエストを拒否する', async (t) => {
+  const port = await getFreePort();
+  const h = await startHarness({
+    slack: { mode: 'events', signingSecret: SIGNING_SECRET, eventsPort: port, fallbackToPolling: false },
+  });
+  t.after(() => h.stop());
+
+  const body = JSON.stringify({ type: 'url_verification', challenge: 'abc' });
+  const timestamp = String(Math.floor(Date.now() / 1000) - 10 * 60);
+  const signature = `v0=${crypto.createHmac('sha256', SIGNING_SECRET).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+  const res = await fetch(`http://127.0.0.1:${port}/slack/events`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Slack-Request-Timestamp': timestamp, 'X-Slack-Signature': signature },
+    body,
+  });
+  assert.equal(res.status, 401);
+});
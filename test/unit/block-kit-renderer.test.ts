@@ -0,0 +1,27 @@
+/**
+ * MarkdownのBlock Kit変換のテスト
+ */
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { parseInline, renderMarkdownToBlocks } from '../../src/utils/block-kit-renderer';
+
+test('http(s)のURLのリンクはリンク要素にする', () => {
+  assert.deepEqual(parseInline('[docs](https://example.com/docs)'), [
+    { type: 'link', url: 'https://example.com/docs', text: 'docs' },
+  ]);
+});
+
+test('相対パスやアンカーへのリンクはテキストにする', () => {
+  assert.deepEqual(parseInline('[foo](src/foo.ts) と [概要](#overview)'), [
+    { type: 'text', text: 'foo' },
+    { type: 'text', text: ' と ' },
+    { type: 'text', text: '概要' },
+  ]);
+});
+
+test('空になる見出しはヘッダーブロックにしない', () => {
+  assert.deepEqual(renderMarkdownToBlocks('## **\n### **\n本文'), [
+    { type: 'section', text: { type: 'mrkdwn', text: '本文' } },
+  ]);
+});
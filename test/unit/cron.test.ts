@@ -0,0 +1,71 @@
+/**
+ * cron式の解析・判定のテスト
+ */
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { matchesCron, parseCron } from '../../src/utils/cron';
+
+/**
+ * ローカル時刻の日時を生成
+ * @param text 日時（YYYY-MM-DD HH:mm）
+ * @returns 日時
+ */
+function at(text: string): Date {
+  const [date, time] = text.split(' ');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+test('範囲・リスト・間隔を展開する', () => {
+  const cron = parseCron('0-30/10 9,12 1-3 */4 *');
+  assert.deepEqual([...cron.minutes], [0, 10, 20, 30]);
+  assert.deepEqual([...cron.hours], [9, 12]);
+  assert.deepEqual([...cron.daysOfMonth], [1, 2, 3]);
+  assert.deepEqual([...cron.months], [1, 5, 9]);
+  assert.equal(cron.daysOfWeek.size, 7);
+});
+
+test('開始値だけの間隔は最大値まで展開する', () => {
+  assert.deepEqual([...parseCron('45/5 * * * *').minutes], [45, 50, 55]);
+});
+
+test('不正な範囲・間隔・範囲外の値はエラーにする', () => {
+  for (const expression of ['1-5-9 * * * *', '*/2/3 * * * *', '5-1 * * * *', '60 * * * *', '* * 0 * *', '* * * * 8', '0 9 * *']) {
+    assert.throws(() => parseCron(expression), Error, expression);
+  }
+});
+
+test('曜日の7は日曜日として扱う', () => {
+  const cron = parseCron('0 9 * * 7');
+  assert.deepEqual([...cron.daysOfWeek], [0]);
+  // 2024-06-02 は日曜日
+  assert.equal(matchesCron(cron, at('2024-06-02 09:00')), true);
+  assert.equal(matchesCron(cron, at('2024-06-03 09:00')), false);
+});
+
+test('日と曜日の両方を指定した場合は、どちらかに一致すれば実行する', () => {
+  const cron = parseCron('0 9 1 * 1');
+  // 2024-06-01 は土曜日（日に一致）、2024-06-03 は月曜日（曜日に一致）
+  assert.equal(matchesCron(cron, at('2024-06-01 09:00')), true);
+  assert.equal(matchesCron(cron, at('2024-06-03 09:00')), true);
+  assert.equal(matchesCron(cron, at('2024-06-04 09:00')), false);
+});
+
+test('* で始まる日・曜日は制限なしとして扱い、もう一方と両方に一致する必要がある', () => {
+  const cron = parseCron('0 9 */2 * 1');
+  assert.equal(cron.dayOfMonthRestricted, false);
+  // 2024-06-03 は月曜日で奇数日、2024-06-10 は月曜日で偶数日、2024-06-05 は水曜日で奇数日
+  assert.equal(matchesCron(cron, at('2024-06-03 09:00')), true);
+  assert.equal(matchesCron(cron, at('2024-06-10 09:00')), false);
+  assert.equal(matchesCron(cron, at('2024-06-05 09:00')), false);
+});
+
+test('分・時・月が一致しない場合は実行しない', () => {
+  const cron = parseCron('30 9 * 6 *');
+  assert.equal(matchesCron(cron, at('2024-06-03 09:30')), true);
+  assert.equal(matchesCron(cron, at('2024-06-03 09:31')), false);
+  assert.equal(matchesCron(cron, at('2024-06-03 10:30')), false);
+  assert.equal(matchesCron(cron, at('2024-07-03 09:30')), false);
+});
@@ -0,0 +1,64 @@
+/**
+ * 作業ツリーの差分取得のテスト
+ */
+
+import { strict as assert } from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import { test } from 'node:test';
+import * as os from 'os';
+import * as path from 'path';
+import { diffSinceSnapshot, takeSnapshot } from '../../src/services/git-diff';
+
+/**
+ * ファイルを1つコミットしたgitリポジトリを作成
+ * @param content README.md の内容
+ * @returns リポジトリのディレクトリ
+ */
+function createRepo(content: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slack-claude-git-diff-'));
+  fs.writeFileSync(path.join(dir, 'README.md'), content);
+  const git = (...args: string[]): string => execFileSync('git', args, { cwd: dir, encoding: 'utf-8' });
+  git('init', '-q');
+  git('add', '-A');
+  git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'init');
+  return dir;
+}
+
+test('実行後に追加・変更したファイルを差分として取得する', async (t) => {
+  const dir = createRepo('# demo\n');
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const before = await takeSnapshot(dir);
+  assert.ok(before);
+  fs.writeFileSync(path.join(dir, 'README.md'), '# demo\nupdated\n');
+  fs.writeFileSync(path.join(dir, 'new.txt'), 'new\n');
+
+  const diff = await diffSinceSnapshot(before);
+  assert.deepEqual(
+    diff.files.map((file) => [file.status, file.path, file.insertions, file.deletions]),
+    [
+      ['M', 'README.md', 1, 0],
+      ['A', 'new.txt', 1, 0],
+    ]
+  );
+  assert.equal(
+    execFileSync('git', ['status', '--porcelain'], { cwd: dir, encoding: 'utf-8' }),
+    ' M README.md\n?? new.txt\n'
+  );
+});
+
+test('別のリポジトリのスナップショットを同時に取得しても互いに干渉しない', async (t) => {
+  const dirs = [createRepo('# a\n'), createRepo('# b\n')];
+  t.after(() => dirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true })));
+  dirs.forEach((dir, i) => fs.writeFileSync(path.join(dir, `untracked-${i}.txt`), `${i}\n`));
+
+  const expected: (string | undefined)[] = [];
+  for (const dir of dirs) {
+    expected.push((await takeSnapshot(dir))?.tree);
+  }
+  for (let i = 0; i < 5; i++) {
+    const snapshots = await Promise.all(dirs.map((dir) => takeSnapshot(dir)));
+    assert.deepEqual(snapshots.map((snapshot) => snapshot?.tree), expected);
+  }
+});
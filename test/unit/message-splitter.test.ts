@@ -0,0 +1,29 @@
+/**
+ * メッセージ分割のテスト
+ */
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { splitMessage } from '../../src/utils/message-splitter';
+
+test('上限以下のメッセージはそのまま返す', () => {
+  assert.deepEqual(splitMessage('短いメッセージ', 100), ['短いメッセージ']);
+});
+
+test('段落の境界で分割する', () => {
+  const text = ['a'.repeat(8), 'b'.repeat(8), 'c'.repeat(8)].join('\n\n');
+  assert.deepEqual(splitMessage(text, 20), ['a'.repeat(8) + '\n\n' + 'b'.repeat(8), 'c'.repeat(8)]);
+});
+
+test('コードブロックは各断片をフェンスで閉じて開き直す', () => {
+  const text = '```ts\n' + ['aaaa', 'bbbb', 'cccc'].join('\n') + '\n```';
+  assert.deepEqual(splitMessage(text, 20), ['```ts\naaaa\nbbbb\n```', '```ts\ncccc\n```']);
+});
+
+test('コードブロックの断片の先頭になる空行を落とさない', () => {
+  const text = '```\n' + ['aaaa', 'bbbb', '', 'cccc'].join('\n') + '\n```';
+  const parts = splitMessage(text, 17);
+  assert.deepEqual(parts, ['```\naaaa\nbbbb\n```', '```\n\ncccc\n```']);
+  const bodies = parts.map((part) => part.split('\n').slice(1, -1).join('\n'));
+  assert.equal(bodies.join('\n'), 'aaaa\nbbbb\n\ncccc');
+});
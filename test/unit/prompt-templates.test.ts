@@ -0,0 +1,35 @@
+/**
+ * プロンプトテンプレートのテスト
+ */
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { expandTemplate, parseTemplateInvocation, TemplateContext } from '../../src/services/prompt-templates';
+import { PromptTemplateConfig } from '../../src/types';
+
+const review: PromptTemplateConfig = { name: 'review', prompt: '{{1}} をレビューして（{{user}}）' };
+
+const context: TemplateContext = { args: 'src/auth', user: 'alice', channel: 'dev', branch: 'main', project: 'demo' };
+
+test('設定にあるテンプレートの呼び出しを取り出す', () => {
+  assert.deepEqual(parseTemplateInvocation('/review src/auth', { review }), { template: review, args: 'src/auth' });
+});
+
+test('設定にないテンプレート名は呼び出しとみなさない', () => {
+  assert.equal(parseTemplateInvocation('/compact', { review }), null);
+  assert.equal(parseTemplateInvocation('/review src/auth', undefined), null);
+});
+
+test('Object.prototype のメソッド名はテンプレートとみなさない', () => {
+  for (const name of ['toString', 'constructor', 'valueOf', 'hasOwnProperty']) {
+    assert.equal(parseTemplateInvocation(`/${name} x`, { review }), null);
+  }
+});
+
+test('位置引数と名前付きのプレースホルダーを展開し、Object.prototype のメソッド名は展開しない', () => {
+  assert.equal(expandTemplate(review, context), 'src/auth をレビューして（alice）');
+  assert.equal(
+    expandTemplate({ name: 'x', prompt: '{{constructor}} {{toString}}' }, context),
+    '{{constructor}} {{toString}}'
+  );
+});